@@ -7,12 +7,14 @@ export async function createClearCommentsCommand(
   return vscode.commands.registerCommand('branchReview.clearComments', async () => {
     const totalComments = commentStorage.getAllComments().length;
     const confirm = await vscode.window.showQuickPick(['Yes', 'No'], {
-      placeHolder: `Are you sure you want to clear ALL ${totalComments} comments globally? (This includes comments from all branch comparisons)`,
+      placeHolder: `Are you sure you want to clear ALL ${totalComments} comments in this repository? (This includes comments from all branch comparisons)`,
     });
 
     if (confirm === 'Yes') {
       commentStorage.clearAllComments();
-      vscode.window.showInformationMessage(`Cleared all ${totalComments} comments globally`);
+      vscode.window.showInformationMessage(
+        `Cleared all ${totalComments} comments in this repository`
+      );
     }
   });
 }
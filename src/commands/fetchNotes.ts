@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+import {
+  GitService,
+  CommentStorage,
+  mergeComments,
+  parseSerializedComments,
+  serializeComments,
+} from '../services';
+import { ReviewPanel } from '../ui/reviewPanel';
+import { GIT_NOTES_REF } from '../constants';
+
+export async function createFetchNotesCommand(
+  gitService: GitService,
+  commentStorage: CommentStorage,
+  getCurrentReviewPanel: () => ReviewPanel | undefined
+): Promise<vscode.Disposable> {
+  return vscode.commands.registerCommand('branchReview.fetchNotes', async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage('No workspace folder found');
+      return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    try {
+      // Notes on the same commit are combined against the remote's note as we last saw it, so
+      // comments deleted on either side stay deleted
+      await commentStorage.flush();
+      const changed = await gitService.fetchNotes(
+        workspaceRoot,
+        GIT_NOTES_REF,
+        (ours, theirs, base) =>
+          serializeComments(
+            mergeComments(
+              base === undefined ? [] : parseSerializedComments(base),
+              parseSerializedComments(ours),
+              parseSerializedComments(theirs)
+            )
+          )
+      );
+
+      await commentStorage.reloadComments();
+      await getCurrentReviewPanel()?.loadComments();
+      vscode.window.showInformationMessage(
+        changed === 0
+          ? 'Review notes are up to date'
+          : `Fetched review notes for ${changed} commit${changed === 1 ? '' : 's'}`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to fetch review notes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+}
@@ -2,3 +2,7 @@
 export { createStartReviewCommand } from './startReview';
 export { createSubmitCommentsCommand } from './submitComments';
 export { createClearCommentsCommand } from './clearComments';
+export { createManageCommentSetsCommand } from './manageCommentSets';
+export { createPushNotesCommand } from './pushNotes';
+export { createFetchNotesCommand } from './fetchNotes';
+export { createShowSubmissionHistoryCommand } from './showSubmissionHistory';
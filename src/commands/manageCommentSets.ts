@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CommentStorage } from '../services';
+import { ReviewPanel } from '../ui/reviewPanel';
+
+export async function createManageCommentSetsCommand(
+  commentStorage: CommentStorage,
+  getCurrentReviewPanel: () => ReviewPanel | undefined
+): Promise<vscode.Disposable> {
+  return vscode.commands.registerCommand('branchReview.manageCommentSets', async () => {
+    const sets = commentStorage.getCommentSets();
+    if (sets.length === 0) {
+      vscode.window.showInformationMessage(
+        'No saved comments yet. Start a branch review to create a comment set.'
+      );
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      sets.map(set => ({
+        label: set.root ? path.basename(set.root) : 'Saved before per-repository storage',
+        description: `${set.remoteUrl || (set.root ? 'no remote' : '')}${set.active ? ' (active)' : ''}`,
+        detail: `${set.count} comment${set.count === 1 ? '' : 's'}${set.root ? ` · ${set.root}` : ''}`,
+        set,
+      })),
+      { placeHolder: 'Select a comment set' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    // A repository file or git notes backend shows its own comments, not a comment set
+    const canSwitch = commentStorage.canSwitchCommentSets();
+    const action = await vscode.window.showQuickPick(
+      canSwitch ? ['Switch to these comments', 'Purge'] : ['Purge'],
+      {
+        placeHolder: canSwitch
+          ? `${picked.label}: ${picked.detail}`
+          : `${picked.label}: ${picked.detail} (switching needs the extension storage backend)`,
+      }
+    );
+
+    if (action === 'Switch to these comments') {
+      commentStorage.switchCommentSet(picked.set.key);
+      await getCurrentReviewPanel()?.loadComments();
+      vscode.window.showInformationMessage(`Showing comments from ${picked.label}`);
+    } else if (action === 'Purge') {
+      const confirm = await vscode.window.showQuickPick(['Yes', 'No'], {
+        placeHolder: `Are you sure you want to delete all ${picked.set.count} comments in ${picked.label}?`,
+      });
+      if (confirm !== 'Yes') {
+        return;
+      }
+
+      commentStorage.purgeCommentSet(picked.set.key);
+      if (picked.set.active) {
+        await getCurrentReviewPanel()?.loadComments();
+      }
+      vscode.window.showInformationMessage(
+        `Purged ${picked.set.count} comments from ${picked.label}`
+      );
+    }
+  });
+}
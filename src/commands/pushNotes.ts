@@ -0,0 +1,28 @@
+import * as vscode from 'vscode';
+import { GitService, CommentStorage } from '../services';
+import { GIT_NOTES_REF } from '../constants';
+
+export async function createPushNotesCommand(
+  gitService: GitService,
+  commentStorage: CommentStorage
+): Promise<vscode.Disposable> {
+  return vscode.commands.registerCommand('branchReview.pushNotes', async () => {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders) {
+      vscode.window.showErrorMessage('No workspace folder found');
+      return;
+    }
+    const workspaceRoot = workspaceFolders[0].uri.fsPath;
+
+    try {
+      // Comments still being written to the note go out with this push
+      await commentStorage.flush();
+      const remote = await gitService.pushNotes(workspaceRoot, GIT_NOTES_REF);
+      vscode.window.showInformationMessage(`Pushed review notes to ${remote}`);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Failed to push review notes: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  });
+}
@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import { CommentStorage, SubmissionHistory } from '../services';
+import { ReviewPanel } from '../ui/reviewPanel';
+import { copyReviewToClipboard } from './submitComments';
+
+export async function createShowSubmissionHistoryCommand(
+  commentStorage: CommentStorage,
+  submissionHistory: SubmissionHistory,
+  getCurrentReviewPanel: () => ReviewPanel | undefined
+): Promise<vscode.Disposable> {
+  return vscode.commands.registerCommand('branchReview.showSubmissionHistory', async () => {
+    const submissions = submissionHistory.getSubmissions();
+    if (submissions.length === 0) {
+      vscode.window.showInformationMessage(
+        'No submissions yet. Submitted reviews are listed here to copy again or restore.'
+      );
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      submissions.map(submission => ({
+        label: new Date(submission.timestamp).toLocaleString(),
+        description: `${submission.comparison} (${submission.mode})`,
+        detail: `${submission.comments.length} comment${submission.comments.length === 1 ? '' : 's'}`,
+        submission,
+      })),
+      { placeHolder: 'Select a past submission' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const action = await vscode.window.showQuickPick(['Copy again', 'Restore comments'], {
+      placeHolder: `${picked.label}: ${picked.detail} for ${picked.submission.comparison}`,
+    });
+
+    if (action === 'Copy again') {
+      await copyReviewToClipboard(picked.submission.prompt);
+    } else if (action === 'Restore comments') {
+      commentStorage.restoreComments(picked.submission.comments);
+      await getCurrentReviewPanel()?.loadComments();
+      vscode.window.showInformationMessage(
+        `Restored ${picked.detail} from ${picked.label} as pending`
+      );
+    }
+  });
+}
@@ -30,6 +30,10 @@ export async function createStartReviewCommand(
       // Do minimal checks first, then show panel immediately
       const currentBranch = await gitService.getCurrentBranch(workspaceRoot);
 
+      // Comments are kept per repository, identified by its root and remote
+      const remoteUrl = await gitService.getRemoteUrl(workspaceRoot);
+      await commentStorage.useRepository(workspaceRoot, remoteUrl, currentBranch);
+
       // Create and show review panel immediately with loading state
       const reviewPanel = new ReviewPanel(context, gitService, commentStorage, workspaceRoot);
       setCurrentReviewPanel(reviewPanel);
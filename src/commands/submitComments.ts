@@ -1,11 +1,29 @@
 import * as vscode from 'vscode';
-import { GitService, CommentStorage, FileDiff } from '../services';
+import {
+  GitService,
+  CommentStorage,
+  Comment,
+  CommentReply,
+  CommentValidation,
+  FileDiff,
+  Submission,
+  SubmissionHistory,
+  splitSuggestion,
+} from '../services';
 import { ReviewPanel } from '../ui/reviewPanel';
-import { DEFAULT_CONFIG, TEMP_FILE_PATTERNS } from '../constants';
+import {
+  COMMENT_SEVERITIES,
+  COMMENT_SEVERITY_LABELS,
+  DEFAULT_COMMENT_SEVERITY,
+  DEFAULT_CONFIG,
+  ReviewMode,
+  TEMP_FILE_PATTERNS,
+} from '../constants';
 
 export async function createSubmitCommentsCommand(
   gitService: GitService,
   commentStorage: CommentStorage,
+  submissionHistory: SubmissionHistory,
   getCurrentReviewPanel: () => ReviewPanel | undefined
 ): Promise<vscode.Disposable> {
   return vscode.commands.registerCommand('branchReview.submitComments', async () => {
@@ -36,7 +54,15 @@ export async function createSubmitCommentsCommand(
       let currentDiff = null;
       try {
         if (reviewMode === 'working-changes') {
-          currentDiff = await gitService.getDiffWithWorkingDirectory(workspaceRoot);
+          currentDiff = await gitService.getDiffWithWorkingDirectory(
+            workspaceRoot,
+            currentReviewPanel.getCurrentWorkingScope()
+          );
+        } else if (reviewMode === 'commit-range') {
+          currentDiff = await gitService.getDiffForCommitRange(
+            workspaceRoot,
+            currentReviewPanel.getCurrentCommitRange()
+          );
         } else {
           currentDiff = await gitService.getDiffWithBranch(workspaceRoot, baseBranch);
         }
@@ -45,26 +71,49 @@ export async function createSubmitCommentsCommand(
         return;
       }
 
-      // Get only valid comments for the current diff state (exactly what user sees)
-      const validComments = commentStorage.getValidCommentsForDiff(currentDiff);
+      // Get only valid comments for the current diff state (exactly what user sees).
+      // Resolved comments stay as the review's history unless the user opts in to sending them.
+      const includeResolved = vscode.workspace
+        .getConfiguration('branchReview.submit')
+        .get<boolean>('includeResolved', false);
+      const validComments = commentStorage
+        .getValidCommentsForDiff(currentDiff)
+        .filter(comment => includeResolved || !comment.resolved);
+      const comparison =
+        reviewMode === 'commit-range'
+          ? currentReviewPanel.getCurrentCommitRange()
+          : `${currentBranch}...${baseBranch}`;
 
       if (validComments.length === 0) {
         vscode.window.showInformationMessage(
-          `No valid comments to submit for comparison ${currentBranch}...${baseBranch}`
+          `No valid comments to submit for comparison ${comparison}`
         );
         return;
       }
 
-      const reviewSummary = await generateReviewSummary(validComments, currentDiff, reviewMode);
+      // Only the chosen comments are sent; the rest stay pending for a later round
+      const selectedComments = await pickCommentsToSubmit(validComments);
+      if (!selectedComments || selectedComments.length === 0) {
+        return;
+      }
+
+      const reviewSummary = await generateReviewSummary(selectedComments, currentDiff, reviewMode);
       await copyReviewToClipboard(reviewSummary);
 
-      // Automatically clear only the submitted comments (WYSIWYG principle)
-      validComments.forEach(comment => {
-        commentStorage.deleteComment(comment.id);
+      // Take only the submitted comments out of the review (WYSIWYG principle), keeping them in
+      // the history in case the prompt never made it to the chat
+      recordSubmission(commentStorage, submissionHistory, {
+        baseBranch,
+        currentBranch,
+        comparison,
+        mode: reviewMode,
+        comments: selectedComments,
+        prompt: reviewSummary,
       });
+      await currentReviewPanel.loadComments();
 
       vscode.window.showInformationMessage(
-        `Submitted and cleared ${validComments.length} comments for ${currentBranch}...${baseBranch}`
+        `Submitted ${selectedComments.length} comments for ${comparison}. Run "Branch Review: Submission History" to copy them again or restore them.`
       );
     } catch (error) {
       vscode.window.showErrorMessage(`Failed to submit comments: ${error}`);
@@ -72,10 +121,93 @@ export async function createSubmitCommentsCommand(
   });
 }
 
-async function generateReviewSummary(
+type SubmitPickItem = vscode.QuickPickItem & { comment?: Comment };
+
+async function pickCommentsToSubmit(comments: Comment[]): Promise<Comment[] | undefined> {
+  const picked = await vscode.window.showQuickPick(buildSubmitPickItems(comments), {
+    canPickMany: true,
+    placeHolder: 'Choose the comments to submit; the others stay pending',
+  });
+  return picked && picked.filter(item => item.comment).map(item => item.comment!);
+}
+
+/**
+ * Entries for choosing which comments to submit, all ticked: the overall comment first, then each
+ * file's comments under a separator, its file note first and the rest in line order
+ */
+export function buildSubmitPickItems(comments: Comment[]): SubmitPickItem[] {
+  const items: SubmitPickItem[] = [];
+  const preview = (comment: Comment) => splitSuggestion(comment.text).text.split('\n')[0];
+
+  comments
+    .filter(comment => comment.scope === 'review')
+    .forEach(comment => {
+      items.push({ label: 'Overall', detail: preview(comment), picked: true, comment });
+    });
+
+  const byFile = new Map<string, Comment[]>();
+  comments
+    .filter(comment => comment.scope !== 'review')
+    .forEach(comment => {
+      byFile.set(comment.filePath, [...(byFile.get(comment.filePath) || []), comment]);
+    });
+
+  byFile.forEach((fileComments, filePath) => {
+    items.push({ label: filePath, kind: vscode.QuickPickItemKind.Separator });
+    [...fileComments]
+      .sort(
+        (a, b) => (a.scope === 'file' ? 0 : a.startLine) - (b.scope === 'file' ? 0 : b.startLine)
+      )
+      .forEach(comment => {
+        const severity = COMMENT_SEVERITY_LABELS[comment.severity || DEFAULT_COMMENT_SEVERITY];
+        const location =
+          comment.scope === 'file'
+            ? 'File note'
+            : `${comment.side === 'old' ? 'Old lines' : 'Lines'} ${comment.startLine}${comment.endLine !== comment.startLine ? `-${comment.endLine}` : ''}`;
+        items.push({
+          label: location,
+          description: comment.category ? `${severity} · ${comment.category}` : severity,
+          detail: preview(comment),
+          picked: true,
+          comment,
+        });
+      });
+  });
+
+  return items;
+}
+
+/**
+ * Add a submission to the history and mark its comments as submitted, deleting those of
+ * submissions that fell out of the history
+ */
+export function recordSubmission(
+  commentStorage: CommentStorage,
+  submissionHistory: SubmissionHistory,
+  submission: Omit<Submission, 'id' | 'timestamp'>
+): Submission {
+  // Store the comments themselves, without the validation details added for display
+  const comments = submission.comments.map(
+    ({
+      validationInfo,
+      approximate,
+      ...comment
+    }: Comment & { validationInfo?: CommentValidation }): Comment => comment
+  );
+  const { recorded, evicted } = submissionHistory.record({ ...submission, comments });
+  commentStorage.markSubmitted(
+    comments.map(comment => comment.id),
+    recorded.id
+  );
+  // Submissions gone from the history can no longer be restored, so neither can their comments
+  commentStorage.deleteSubmittedComments(evicted.map(evictedSubmission => evictedSubmission.id));
+  return recorded;
+}
+
+export async function generateReviewSummary(
   comments: any[],
   currentDiff: FileDiff[] | null = null,
-  reviewMode: 'branch-compare' | 'working-changes' = 'branch-compare'
+  reviewMode: ReviewMode = 'branch-compare'
 ): Promise<string> {
   if (comments.length === 0) {
     return 'No review comments to submit.';
@@ -104,6 +236,11 @@ async function generateReviewSummary(
       config.get<string>('footerWorkingChanges') || // Mode-specific setting
       config.get<string>('footer') || // General setting
       DEFAULT_CONFIG.PROMPT_FOOTER_WORKING_CHANGES; // Default for mode
+  } else if (reviewMode === 'commit-range') {
+    footer =
+      config.get<string>('footerCommitRange') || // Mode-specific setting
+      config.get<string>('footer') || // General setting
+      DEFAULT_CONFIG.PROMPT_FOOTER; // Default for mode
   } else {
     footer =
       config.get<string>('footerBranchCompare') || // Mode-specific setting
@@ -113,43 +250,67 @@ async function generateReviewSummary(
 
   let summary = header + '\n\n';
 
-  // Group comments by file
-  const commentsByFile = new Map<string, any[]>();
-  validComments.forEach((comment: any) => {
-    if (!commentsByFile.has(comment.filePath)) {
-      commentsByFile.set(comment.filePath, []);
-    }
-    commentsByFile.get(comment.filePath)!.push(comment);
-  });
+  // The overall comment frames everything below it
+  validComments
+    .filter((comment: any) => comment.scope === 'review')
+    .forEach((comment: any) => {
+      summary += `## Overall\n\n${comment.text}\n\n${formatReplies(comment)}`;
+    });
 
-  // Sort files alphabetically
-  const sortedFiles = Array.from(commentsByFile.keys()).sort();
+  // Notes on whole files, before the line-level issues
+  const fileNotes = validComments.filter((comment: any) => comment.scope === 'file');
+  if (fileNotes.length > 0) {
+    summary += '## File Notes\n\n';
+    Array.from(new Set<string>(fileNotes.map((comment: any) => comment.filePath)))
+      .sort()
+      .forEach(filePath => {
+        summary += `### \`${filePath}\`\n\n`;
+        fileNotes
+          .filter((comment: any) => comment.filePath === filePath)
+          .forEach((comment: any) => {
+            summary += `${comment.text}\n\n${formatReplies(comment)}`;
+          });
+      });
+  }
 
-  sortedFiles.forEach((filePath, fileIndex) => {
-    summary += `## ${fileIndex + 1}. \`${filePath}\`\n\n`;
+  // Most important feedback first: one section per severity, files alphabetically within it
+  const lineComments = validComments.filter(
+    (comment: any) => !comment.scope || comment.scope === 'line'
+  );
+  let issueNumber = 0;
+  COMMENT_SEVERITIES.forEach(severity => {
+    const severityComments = lineComments.filter(
+      (comment: any) => (comment.severity || DEFAULT_COMMENT_SEVERITY) === severity
+    );
+    if (severityComments.length === 0) {
+      return;
+    }
 
-    const fileComments = commentsByFile.get(filePath)!;
-    // Sort comments by line number
-    fileComments.sort((a, b) => a.startLine - b.startLine);
+    summary += `## ${COMMENT_SEVERITY_LABELS[severity]} (${severityComments.length})\n\n`;
 
-    fileComments.forEach((comment, commentIndex) => {
-      summary += `### Issue ${commentIndex + 1} (Lines ${comment.startLine}`;
-      if (comment.startLine !== comment.endLine) {
-        summary += `-${comment.endLine}`;
-      }
-      summary += ')\n\n';
-
-      summary += `**Feedback:** ${comment.text}\n\n`;
-
-      if (
-        comment.codeSnippet &&
-        comment.codeSnippet !== `Lines ${comment.startLine}-${comment.endLine}`
-      ) {
-        summary += '**Code Reference:**\n';
-        summary += '```\n';
-        summary += comment.codeSnippet;
-        summary += '\n```\n\n';
+    // Group comments by file
+    const commentsByFile = new Map<string, any[]>();
+    severityComments.forEach((comment: any) => {
+      if (!commentsByFile.has(comment.filePath)) {
+        commentsByFile.set(comment.filePath, []);
       }
+      commentsByFile.get(comment.filePath)!.push(comment);
+    });
+
+    // Sort files alphabetically
+    const sortedFiles = Array.from(commentsByFile.keys()).sort();
+
+    sortedFiles.forEach(filePath => {
+      summary += `### \`${filePath}\`\n\n`;
+
+      const fileComments = commentsByFile.get(filePath)!;
+      // Sort comments by line number
+      fileComments.sort((a, b) => a.startLine - b.startLine);
+
+      fileComments.forEach(comment => {
+        issueNumber++;
+        summary += formatIssue(comment, issueNumber);
+      });
     });
   });
 
@@ -159,7 +320,62 @@ async function generateReviewSummary(
   return summary;
 }
 
-async function copyReviewToClipboard(reviewSummary: string) {
+function formatIssue(comment: Comment, issueNumber: number): string {
+  // Old-side comments point at removed lines, numbered as in the base version
+  const isOldSide = comment.side === 'old';
+  let issue = `#### Issue ${issueNumber} (${isOldSide ? 'Old lines' : 'Lines'} ${comment.startLine}`;
+  if (comment.startLine !== comment.endLine) {
+    issue += `-${comment.endLine}`;
+  }
+  issue += isOldSide ? ', removed' : '';
+  issue += comment.resolved ? ', resolved)' : ')';
+  issue += comment.category ? ` [${comment.category}]\n\n` : '\n\n';
+
+  const { text, suggestion } = splitSuggestion(comment.text);
+  issue += `**Feedback:** ${text}\n\n`;
+  issue += formatReplies(comment);
+
+  if (isOldSide && comment.anchor?.lineContent) {
+    issue += '**Removed Code:**\n';
+    issue += '```\n';
+    issue += comment.anchor.lineContent;
+    issue += '\n```\n\n';
+  } else if (
+    comment.codeSnippet &&
+    comment.codeSnippet !== `Lines ${comment.startLine}-${comment.endLine}`
+  ) {
+    issue += '**Code Reference:**\n';
+    issue += '```\n';
+    issue += comment.codeSnippet;
+    issue += '\n```\n\n';
+  }
+
+  // Suggestion blocks are spelled out as the code that should replace the commented lines
+  if (suggestion !== undefined) {
+    const lineRange =
+      comment.startLine === comment.endLine
+        ? `Line ${comment.startLine}`
+        : `Lines ${comment.startLine}-${comment.endLine}`;
+    issue += `**Suggested Replacement (${lineRange}):**\n`;
+    issue += '```\n';
+    issue += suggestion;
+    issue += '\n```\n\n';
+  }
+
+  return issue;
+}
+
+// The rest of a comment's conversation, in the order it happened
+function formatReplies(comment: Comment): string {
+  return (comment.replies || [])
+    .map(
+      (reply: CommentReply, replyIndex: number) =>
+        `**Follow-up ${replyIndex + 1}:** ${reply.text}\n\n`
+    )
+    .join('');
+}
+
+export async function copyReviewToClipboard(reviewSummary: string) {
   // Copy to clipboard
   await vscode.env.clipboard.writeText(reviewSummary);
 
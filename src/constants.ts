@@ -2,6 +2,9 @@
 
 export const STORAGE_KEYS = {
   COMMENTS: 'branchReview.comments',
+  COMMENT_SETS: 'branchReview.commentSets',
+  DIFF_LAYOUT: 'branchReview.diffLayout',
+  SUBMISSIONS: 'branchReview.submissions',
 } as const;
 
 export const MAIN_BRANCH_NAMES = ['trunk', 'main', 'master', 'develop'] as const;
@@ -10,6 +13,10 @@ export const COMMANDS = {
   START_REVIEW: 'branchReview.startReview',
   SUBMIT_COMMENTS: 'branchReview.submitComments',
   CLEAR_COMMENTS: 'branchReview.clearComments',
+  MANAGE_COMMENT_SETS: 'branchReview.manageCommentSets',
+  PUSH_NOTES: 'branchReview.pushNotes',
+  FETCH_NOTES: 'branchReview.fetchNotes',
+  SHOW_SUBMISSION_HISTORY: 'branchReview.showSubmissionHistory',
 } as const;
 
 export const WEBVIEW_COMMANDS = {
@@ -17,6 +24,15 @@ export const WEBVIEW_COMMANDS = {
   UPDATE_COMMENT: 'updateComment',
   DELETE_COMMENT: 'deleteComment',
   DELETE_ALL_COMMENTS: 'deleteAllComments',
+  ADD_REPLY: 'addReply',
+  DELETE_REPLY: 'deleteReply',
+  RESOLVE_COMMENT: 'resolveComment',
+  UNRESOLVE_COMMENT: 'unresolveComment',
+  APPLY_SUGGESTION: 'applySuggestion',
+  CONFIRM_ANCHOR: 'confirmAnchor',
+  REATTACH_COMMENT: 'reattachComment',
+  CONVERT_TO_FILE_COMMENT: 'convertToFileComment',
+  DELETE_OUTDATED_COMMENTS: 'deleteOutdatedComments',
   LOAD_COMMENTS: 'loadComments',
   REFRESH_DIFF: 'refreshDiff',
   CHANGE_BRANCH: 'changeBranch',
@@ -29,13 +45,122 @@ export const WEBVIEW_COMMANDS = {
   SHOW_WARNING: 'showWarning',
   OPEN_FILE: 'openFile',
   UPDATE_DIFF_STATS: 'updateDiffStats',
+  CHANGE_COMMIT_RANGE: 'changeCommitRange',
+  SELECT_BRANCH_COMMIT: 'selectBranchCommit',
+  CHANGE_WORKING_SCOPE: 'changeWorkingScope',
+  REQUEST_FILE_ROWS: 'requestFileRows',
+  FILE_ROWS_LOADED: 'fileRowsLoaded',
+  FILE_ROWS_FAILED: 'fileRowsFailed',
+  EXPAND_CONTEXT: 'expandContext',
+  CONTEXT_LOADED: 'contextLoaded',
+  CONTEXT_FAILED: 'contextFailed',
+  CHANGE_DIFF_OPTIONS: 'changeDiffOptions',
+  CHANGE_DIFF_LAYOUT: 'changeDiffLayout',
 } as const;
 
 export const REVIEW_MODES = {
   BRANCH_COMPARE: 'branch-compare',
   WORKING_CHANGES: 'working-changes',
+  COMMIT_RANGE: 'commit-range',
 } as const;
 
+export type ReviewMode = (typeof REVIEW_MODES)[keyof typeof REVIEW_MODES];
+
+// Which uncommitted changes Working Changes mode shows
+export const WORKING_CHANGES_SCOPES = {
+  ALL: 'all',
+  STAGED: 'staged',
+  UNSTAGED: 'unstaged',
+} as const;
+
+export type WorkingChangesScope =
+  (typeof WORKING_CHANGES_SCOPES)[keyof typeof WORKING_CHANGES_SCOPES];
+
+// Algorithms offered for `git diff --diff-algorithm`
+export const DIFF_ALGORITHMS = ['myers', 'patience', 'histogram', 'minimal'] as const;
+
+export type DiffAlgorithm = (typeof DIFF_ALGORITHMS)[number];
+
+// How whitespace-only changes are treated when diffing
+export const WHITESPACE_MODES = {
+  SHOW_ALL: 'show-all',
+  IGNORE_CHANGES: 'ignore-changes',
+  IGNORE_ALL: 'ignore-all',
+} as const;
+
+export type WhitespaceMode = (typeof WHITESPACE_MODES)[keyof typeof WHITESPACE_MODES];
+
+// Context lines offered by the header toggle
+export const CONTEXT_LINE_CHOICES = [0, 3, 7, 15, 25];
+
+// GitHub-like defaults, also the defaults of the branchReview.diff.* settings
+export const DEFAULT_DIFF_OPTIONS = {
+  contextLines: 7,
+  algorithm: 'histogram' as DiffAlgorithm,
+  whitespace: WHITESPACE_MODES.IGNORE_CHANGES as WhitespaceMode,
+};
+
+// Where comments are kept: the extension's own storage, a file in the repository, or git notes
+export const STORAGE_BACKENDS = {
+  EXTENSION: 'extension',
+  REPO_FILE: 'repoFile',
+  GIT_NOTES: 'gitNotes',
+} as const;
+
+export type StorageBackend = (typeof STORAGE_BACKENDS)[keyof typeof STORAGE_BACKENDS];
+
+// Directory in the repository holding one comments file per branch
+export const REPO_COMMENTS_DIR = '.branch-review';
+
+// Notes ref holding comments as git notes on the reviewed commits
+export const GIT_NOTES_REF = 'refs/notes/branch-review';
+
+// How far back through history to look for the nearest commit with review notes
+export const NOTES_HISTORY_LIMIT = 1000;
+
+// Oldest submissions are dropped from the history beyond this many
+export const SUBMISSION_HISTORY_LIMIT = 50;
+
+// Side-by-side or single-column rendering of the diff tables
+export const DIFF_LAYOUTS = {
+  SPLIT: 'split',
+  UNIFIED: 'unified',
+} as const;
+
+export type DiffLayout = (typeof DIFF_LAYOUTS)[keyof typeof DIFF_LAYOUTS];
+
+// How much a comment matters, most important first
+export const COMMENT_SEVERITIES = ['blocker', 'major', 'minor', 'nit'] as const;
+
+export type CommentSeverity = (typeof COMMENT_SEVERITIES)[number];
+
+export const COMMENT_SEVERITY_LABELS: Record<CommentSeverity, string> = {
+  blocker: 'Blocker',
+  major: 'Major',
+  minor: 'Minor',
+  nit: 'Nit',
+};
+
+// Comments without a severity, such as older ones, count as minor
+export const DEFAULT_COMMENT_SEVERITY: CommentSeverity = 'minor';
+
+// What kind of feedback a comment is, when the reviewer says so
+export const COMMENT_CATEGORIES = ['bug', 'style', 'perf', 'security', 'test'] as const;
+
+export type CommentCategory = (typeof COMMENT_CATEGORIES)[number];
+
+// Number of recent commits offered in the commit picker
+export const COMMIT_PICKER_LIMIT = 50;
+
+// How many file contents to read between loading status updates
+export const BLOB_PROGRESS_INTERVAL = 25;
+
+// Diff lines rendered up front; files past this budget render when scrolled into view
+export const LAZY_RENDER_EAGER_LINES = 1500;
+
+// Git's well-known empty tree object, used as the parent of a root commit
+export const EMPTY_TREE_HASH = '4b825dc642cb6eb9a060e54bf8d69288fbee4904';
+
 export const DEFAULT_CONFIG = {
   PROMPT_HEADER:
     '# Code Review Feedback\n\nI have reviewed the changes in this branch and have the following feedback:',
@@ -51,3 +176,21 @@ export const TEMP_FILE_PATTERNS = [
   '.git/',
   'node_modules/',
 ] as const;
+
+// Hidden lines revealed per click on a hunk header's expand up/down buttons
+export const CONTEXT_EXPAND_LINES = 20;
+
+// Default for branchReview.diff.largeFileLineThreshold - bigger files stay collapsed until asked for
+export const LARGE_FILE_LINE_THRESHOLD = 3000;
+
+// Images above this size get a size card instead of an inline preview
+export const IMAGE_PREVIEW_MAX_BYTES = 5 * 1024 * 1024;
+
+// Extensions previewed as images, with the MIME type used for their data: URIs
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.svg': 'image/svg+xml',
+};
@@ -1,10 +1,14 @@
 import * as vscode from 'vscode';
-import { GitService, CommentStorage } from './services';
+import { GitService, CommentStorage, SubmissionHistory } from './services';
 import { ReviewPanel } from './ui';
 import {
   createStartReviewCommand,
   createSubmitCommentsCommand,
   createClearCommentsCommand,
+  createManageCommentSetsCommand,
+  createPushNotesCommand,
+  createFetchNotesCommand,
+  createShowSubmissionHistoryCommand,
 } from './commands';
 
 export async function activate(context: vscode.ExtensionContext) {
@@ -12,6 +16,7 @@ export async function activate(context: vscode.ExtensionContext) {
     // Initialize core services
     const gitService = new GitService();
     const commentStorage = new CommentStorage(context);
+    const submissionHistory = new SubmissionHistory(context);
     let currentReviewPanel: ReviewPanel | undefined;
 
     // Helper functions for command access to shared state
@@ -32,13 +37,41 @@ export async function activate(context: vscode.ExtensionContext) {
     const submitCommentsCommand = await createSubmitCommentsCommand(
       gitService,
       commentStorage,
+      submissionHistory,
       getCurrentReviewPanel
     );
 
     const clearCommentsCommand = await createClearCommentsCommand(commentStorage);
 
+    const manageCommentSetsCommand = await createManageCommentSetsCommand(
+      commentStorage,
+      getCurrentReviewPanel
+    );
+
+    const pushNotesCommand = await createPushNotesCommand(gitService, commentStorage);
+
+    const fetchNotesCommand = await createFetchNotesCommand(
+      gitService,
+      commentStorage,
+      getCurrentReviewPanel
+    );
+
+    const showSubmissionHistoryCommand = await createShowSubmissionHistoryCommand(
+      commentStorage,
+      submissionHistory,
+      getCurrentReviewPanel
+    );
+
     // Add all commands to subscriptions
-    context.subscriptions.push(startReviewCommand, submitCommentsCommand, clearCommentsCommand);
+    context.subscriptions.push(
+      startReviewCommand,
+      submitCommentsCommand,
+      clearCommentsCommand,
+      manageCommentSetsCommand,
+      pushNotesCommand,
+      fetchNotesCommand,
+      showSubmissionHistoryCommand
+    );
   } catch (error) {
     throw error;
   }
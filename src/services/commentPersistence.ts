@@ -1,27 +1,86 @@
 import * as vscode from 'vscode';
-import { STORAGE_KEYS } from '../constants';
-import { Comment } from './commentStorage';
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMMENT_SEVERITIES, DEFAULT_COMMENT_SEVERITY, STORAGE_KEYS } from '../constants';
+import { Comment, CommentLocation, CommentReply, CommentSet } from './commentStorage';
+import { normalizeContent } from './commentUtils';
 
 /**
  * Handles comment persistence and basic CRUD operations
  */
 export class CommentPersistence {
-  private static readonly STORAGE_KEY = STORAGE_KEYS.COMMENTS;
+  private static readonly LEGACY_KEY = STORAGE_KEYS.COMMENTS;
 
-  constructor(private context: vscode.ExtensionContext) {}
+  // Until a repository is chosen, comments use the single key of earlier versions
+  private storageKey: string = CommentPersistence.LEGACY_KEY;
+
+  constructor(protected context: vscode.ExtensionContext) {}
+
+  /**
+   * Store comments under the repository's own key, so projects with the same relative paths
+   * never share comments. Comments from before this whose lines are in the repository move over.
+   */
+  useRepository(root: string, remoteUrl: string): void {
+    const key = `${CommentPersistence.LEGACY_KEY}:${root}#${remoteUrl}`;
+    const sets = this.getRegisteredSets();
+    if (!sets.some(set => set.key === key)) {
+      this.context.globalState.update(STORAGE_KEYS.COMMENT_SETS, [
+        ...sets,
+        { key, root, remoteUrl },
+      ]);
+    }
+
+    this.storageKey = key;
+    this.migrateLegacyComments(root);
+  }
+
+  /**
+   * Every repository's comment set, plus the comments from before storage was per repository
+   */
+  getCommentSets(): Array<CommentSet & { count: number; active: boolean }> {
+    const sets = this.getRegisteredSets();
+    if (this.countComments(CommentPersistence.LEGACY_KEY) > 0) {
+      sets.push({ key: CommentPersistence.LEGACY_KEY, root: '', remoteUrl: '' });
+    }
+
+    return sets.map(set => ({
+      ...set,
+      count: this.countComments(set.key),
+      active: set.key === this.storageKey,
+    }));
+  }
+
+  /**
+   * Read and write another comment set from now on
+   */
+  switchCommentSet(key: string): void {
+    this.storageKey = key;
+  }
+
+  /**
+   * Delete a comment set's comments and forget the set
+   */
+  purgeCommentSet(key: string): void {
+    this.context.globalState.update(key, undefined);
+    this.context.globalState.update(
+      STORAGE_KEYS.COMMENT_SETS,
+      this.getRegisteredSets().filter(set => set.key !== key)
+    );
+  }
 
   /**
    * Get all comments from storage
    */
   getAllComments(): Comment[] {
-    const stored = this.context.globalState.get<Comment[]>(CommentPersistence.STORAGE_KEY);
-    // Filter out any null/undefined comments and comments without required fields
+    const stored = this.readComments();
+    // Filter out any null/undefined comments and comments without required fields.
+    // The overall review comment is the only one without a file.
     const validComments = (stored || []).filter(
-      c => c && c.filePath && c.text && typeof c.startLine === 'number'
+      c => c && (c.filePath || c.scope === 'review') && c.text && typeof c.startLine === 'number'
     );
 
     // Handle legacy comments that don't have the new anchor structure
-    return validComments.map(comment => {
+    return validComments.map(normalizeSeverity).map(comment => {
       if (!comment.anchor) {
         // Convert legacy comment to new format - these will be marked as outdated
         return {
@@ -88,6 +147,99 @@ export class CommentPersistence {
     this.saveComments(filteredComments);
   }
 
+  /**
+   * Delete several comments at once
+   */
+  deleteComments(commentIds: string[]): void {
+    const comments = this.getAllComments();
+    this.saveComments(comments.filter(c => !commentIds.includes(c.id)));
+  }
+
+  /**
+   * Add a reply to the end of a comment's thread
+   */
+  addReply(commentId: string, reply: CommentReply): void {
+    const comments = this.getAllComments();
+    const comment = comments.find(c => c.id === commentId);
+    if (comment) {
+      comment.replies = [...(comment.replies || []), reply];
+      this.saveComments(comments);
+    }
+  }
+
+  /**
+   * Delete a reply from a comment's thread
+   */
+  deleteReply(commentId: string, replyId: string): void {
+    const comments = this.getAllComments();
+    const comment = comments.find(c => c.id === commentId);
+    if (comment && comment.replies) {
+      comment.replies = comment.replies.filter(reply => reply.id !== replyId);
+      this.saveComments(comments);
+    }
+  }
+
+  /**
+   * Set or clear a comment's resolved state
+   */
+  setResolved(commentId: string, resolved: Comment['resolved']): void {
+    const comments = this.getAllComments();
+    const comment = comments.find(c => c.id === commentId);
+    if (comment) {
+      if (resolved) {
+        comment.resolved = resolved;
+      } else {
+        delete comment.resolved;
+      }
+      this.saveComments(comments);
+    }
+  }
+
+  /**
+   * Attach a comment somewhere else: other lines with a fresh anchor, or its whole file
+   */
+  reanchorComment(commentId: string, location: CommentLocation): void {
+    const comments = this.getAllComments();
+    const comment = comments.find(c => c.id === commentId);
+    if (comment) {
+      Object.assign(comment, location, { status: 'current' });
+      this.saveComments(comments);
+    }
+  }
+
+  /**
+   * Set or clear several comments' submitted state
+   */
+  setSubmitted(commentIds: string[], submitted: Comment['submitted']): void {
+    const comments = this.getAllComments();
+    comments
+      .filter(c => commentIds.includes(c.id))
+      .forEach(comment => {
+        if (submitted) {
+          comment.submitted = submitted;
+        } else {
+          delete comment.submitted;
+        }
+      });
+    this.saveComments(comments);
+  }
+
+  /**
+   * Put comments back as they were snapshotted and not yet submitted, re-adding any deleted since
+   */
+  restoreComments(snapshot: Comment[]): void {
+    const comments = this.getAllComments();
+    snapshot.forEach(({ submitted, ...restored }) => {
+      const index = comments.findIndex(c => c.id === restored.id);
+      if (index >= 0) {
+        comments[index] = restored;
+      } else {
+        comments.push(restored);
+      }
+    });
+    this.saveComments(comments);
+  }
+
   /**
    * Delete a comment by location (fallback method)
    */
@@ -106,10 +258,87 @@ export class CommentPersistence {
     this.saveComments([]);
   }
 
+  /**
+   * Read the raw stored comments; other backends override this and saveComments
+   */
+  protected readComments(): Comment[] | undefined {
+    return this.context.globalState.get<Comment[]>(this.storageKey);
+  }
+
   /**
    * Save comments to storage
    */
-  private saveComments(comments: Comment[]): void {
-    this.context.globalState.update(CommentPersistence.STORAGE_KEY, comments);
+  protected saveComments(comments: Comment[]): void {
+    this.context.globalState.update(this.storageKey, comments);
+  }
+
+  private getRegisteredSets(): CommentSet[] {
+    return [...(this.context.globalState.get<CommentSet[]>(STORAGE_KEYS.COMMENT_SETS) || [])];
+  }
+
+  private countComments(key: string): number {
+    return (this.context.globalState.get<Comment[]>(key) || []).length;
+  }
+
+  /**
+   * Earlier versions kept every repository's comments together. Paths such as README.md exist in
+   * most repositories, so claim only the comments whose commented lines are in that file here.
+   * The rest, including review comments with no file, stay unassigned for the reviewer to switch
+   * to or purge.
+   */
+  private migrateLegacyComments(root: string): void {
+    const legacy = (
+      this.context.globalState.get<Comment[]>(CommentPersistence.LEGACY_KEY) || []
+    ).filter(comment => comment);
+    if (legacy.length === 0) {
+      return;
+    }
+
+    // Each file is read once, however many comments are on it
+    const fileTexts = new Map<string, string | undefined>();
+    const readFile = (filePath: string) => {
+      if (!fileTexts.has(filePath)) {
+        try {
+          fileTexts.set(filePath, normalizeContent(fs.readFileSync(filePath, 'utf8')));
+        } catch (error) {
+          fileTexts.set(filePath, undefined);
+        }
+      }
+      return fileTexts.get(filePath);
+    };
+    const belongsHere = (comment: Comment) => {
+      const lineContent = normalizeContent(comment.anchor?.lineContent || '');
+      const filePath = comment.filePath && path.join(root, comment.filePath);
+      if (!lineContent || !filePath) {
+        return false;
+      }
+      return readFile(filePath)?.includes(lineContent) === true;
+    };
+
+    const claimed: Comment[] = [];
+    const remaining: Comment[] = [];
+    legacy.forEach(comment => (belongsHere(comment) ? claimed : remaining).push(comment));
+
+    if (claimed.length > 0) {
+      this.saveComments([
+        ...(this.context.globalState.get<Comment[]>(this.storageKey) || []),
+        ...claimed,
+      ]);
+    }
+    this.context.globalState.update(
+      CommentPersistence.LEGACY_KEY,
+      remaining.length > 0 ? remaining : undefined
+    );
+  }
+}
+
+/**
+ * Comments from a repository file or git notes can carry any severity; unknown ones become the
+ * default, so every comment is labelled and submitted under a known severity
+ */
+function normalizeSeverity(comment: Comment): Comment {
+  if (comment.severity === undefined || COMMENT_SEVERITIES.includes(comment.severity)) {
+    return comment;
   }
+  return { ...comment, severity: DEFAULT_COMMENT_SEVERITY };
 }
@@ -1,13 +1,52 @@
 import * as vscode from 'vscode';
-import { FileDiff } from './gitService';
 import { CommentPersistence } from './commentPersistence';
-import { createCommentAnchor, validateAndRepositionComment } from './commentUtils';
+import { RepoFileCommentPersistence } from './repoFileCommentPersistence';
+import { GitNotesCommentPersistence } from './gitNotesCommentPersistence';
+import { FileDiff, GitService } from './gitService';
+import { CommentCategory, CommentSeverity, STORAGE_BACKENDS, StorageBackend } from '../constants';
+import {
+  CommentValidation,
+  createCommentAnchor,
+  findFileDiffForComment,
+  validateAndRepositionComment,
+} from './commentUtils';
+
+// Which version of the file a comment's line numbers refer to
+export type CommentSide = 'old' | 'new';
+
+// What a comment is attached to: a line range, a whole file, or the review as a whole
+export type CommentScope = 'line' | 'file' | 'review';
+
+// A follow-up note in a comment's thread
+export interface CommentReply {
+  id: string;
+  text: string;
+  timestamp: string;
+}
+
+// One repository's comments, stored under their own key. Comments saved before storage was per
+// repository live under the plain comments key, with an empty root.
+export interface CommentSet {
+  key: string;
+  root: string;
+  remoteUrl: string;
+}
+
+// Where a comment is attached; file and review comments carry an empty anchor
+export type CommentLocation = Pick<
+  Comment,
+  'filePath' | 'startLine' | 'endLine' | 'side' | 'scope' | 'anchor'
+>;
 
 export interface Comment {
   id: string;
   filePath: string;
   startLine: number;
   endLine: number;
+  side?: CommentSide; // Removed lines are commented on the old side; defaults to 'new'
+  scope?: CommentScope; // Defaults to 'line'; file and review comments have no lines (0-0)
+  severity?: CommentSeverity; // Defaults to DEFAULT_COMMENT_SEVERITY
+  category?: CommentCategory;
   text: string;
   codeSnippet: string;
   timestamp: string;
@@ -26,13 +65,122 @@ export interface Comment {
     };
   };
   status: 'current' | 'outdated' | 'moved'; // Comment status tracking
+  approximate?: boolean; // Set while shown: moved to lines found only by similarity
+  replies?: CommentReply[]; // Follow-ups after the original note, oldest first
+  resolved?: {
+    by: string;
+    at: string;
+  };
+  submitted?: {
+    submissionId: string; // The Submission in the history it was sent in
+    at: string;
+  };
 }
 
 export class CommentStorage {
+  // The extension's own storage, which also tracks each repository's comment set
   private persistence: CommentPersistence;
+  // Where comments are read and written: the extension's storage, a repository file or git notes
+  private backend: CommentPersistence;
+  private repoFile: RepoFileCommentPersistence | undefined;
+  private gitNotes: GitNotesCommentPersistence | undefined;
+  private changeEmitter = new vscode.EventEmitter<void>();
+
+  // Fires when comments are changed outside the extension, e.g. in the repository file
+  readonly onDidChangeComments = this.changeEmitter.event;
 
-  constructor(context: vscode.ExtensionContext) {
+  constructor(private context: vscode.ExtensionContext) {
     this.persistence = new CommentPersistence(context);
+    this.backend = this.persistence;
+  }
+
+  /**
+   * Keep comments for the repository at this root and remote from now on, in the backend chosen
+   * by the `branchReview.storage.backend` setting
+   */
+  async useRepository(root: string, remoteUrl: string, branch: string): Promise<void> {
+    this.persistence.useRepository(root, remoteUrl);
+
+    this.repoFile?.dispose();
+    this.repoFile = undefined;
+    this.gitNotes = undefined;
+    this.backend = this.persistence;
+
+    const backend = vscode.workspace
+      .getConfiguration('branchReview.storage')
+      .get<StorageBackend>('backend', STORAGE_BACKENDS.EXTENSION);
+    if (backend === STORAGE_BACKENDS.REPO_FILE) {
+      this.useRepoFile(root, branch);
+    } else if (backend === STORAGE_BACKENDS.GIT_NOTES) {
+      this.gitNotes = new GitNotesCommentPersistence(this.context, new GitService(), root);
+      await this.gitNotes.load();
+      this.backend = this.gitNotes;
+    }
+  }
+
+  /**
+   * Follow a checkout made during a review. The repository file is kept per branch, so comments
+   * go to the checked out branch's file from here on; the other backends are not per branch.
+   */
+  useBranch(branch: string): void {
+    if (this.repoFile && this.repoFile.branch !== branch) {
+      this.useRepoFile(this.repoFile.workspaceRoot, branch);
+    }
+  }
+
+  private useRepoFile(root: string, branch: string): void {
+    this.repoFile?.dispose();
+    this.repoFile = new RepoFileCommentPersistence(this.context, root, branch);
+    this.repoFile.onDidChange(() => this.changeEmitter.fire());
+    this.backend = this.repoFile;
+  }
+
+  /**
+   * Re-read comments kept in git notes, e.g. after fetching a teammate's notes
+   */
+  async reloadComments(): Promise<void> {
+    if (this.gitNotes) {
+      await this.gitNotes.load();
+    }
+  }
+
+  /**
+   * Resolves once every change so far has been written out
+   */
+  async flush(): Promise<void> {
+    if (this.gitNotes) {
+      await this.gitNotes.flush();
+    }
+  }
+
+  /**
+   * Every repository's comment set, with how many comments it holds
+   */
+  getCommentSets(): Array<CommentSet & { count: number; active: boolean }> {
+    return this.persistence.getCommentSets();
+  }
+
+  /**
+   * Comment sets are kept in the extension's storage, so they can only be switched to while that
+   * is the backend; a repository file or git notes are read from the repository itself
+   */
+  canSwitchCommentSets(): boolean {
+    return this.backend === this.persistence;
+  }
+
+  /**
+   * Show and edit another comment set, e.g. one kept for a repository that has since moved.
+   * Has no effect on what is shown unless canSwitchCommentSets().
+   */
+  switchCommentSet(key: string): void {
+    this.persistence.switchCommentSet(key);
+  }
+
+  /**
+   * Delete a comment set and everything in it
+   */
+  purgeCommentSet(key: string): void {
+    this.persistence.purgeCommentSet(key);
   }
 
   /**
@@ -43,58 +191,131 @@ export class CommentStorage {
     currentBranch: string,
     fileDiff: FileDiff,
     startLine: number,
-    endLine: number
+    endLine: number,
+    side: CommentSide = 'new'
   ): Comment['anchor'] {
-    return createCommentAnchor(baseBranch, currentBranch, fileDiff, startLine, endLine);
+    return createCommentAnchor(baseBranch, currentBranch, fileDiff, startLine, endLine, side);
   }
 
   /**
    * Get all comments from storage
    */
   getAllComments(): Comment[] {
-    return this.persistence.getAllComments();
+    return this.backend.getAllComments();
   }
 
   /**
    * Get comments for a specific file
    */
   getCommentsForFile(filePath: string): Comment[] {
-    return this.persistence.getCommentsForFile(filePath);
+    return this.backend.getCommentsForFile(filePath);
   }
 
   /**
    * Add a new comment
    */
   addComment(comment: Comment): void {
-    this.persistence.addComment(comment);
+    this.backend.addComment(comment);
   }
 
   /**
    * Update an existing comment's text
    */
   updateComment(commentId: string, newText: string): void {
-    this.persistence.updateComment(commentId, newText);
+    this.backend.updateComment(commentId, newText);
   }
 
   /**
    * Delete a comment by ID
    */
   deleteComment(commentId: string): void {
-    this.persistence.deleteComment(commentId);
+    this.backend.deleteComment(commentId);
+  }
+
+  /**
+   * Delete every comment whose lines can no longer be found in a file of the diff, returning how
+   * many there were. Comments on files outside the diff are kept.
+   */
+  deleteOutdatedComments(currentDiff: FileDiff[]): number {
+    const outdated = this.getOutdatedCommentsForDiff(currentDiff);
+    this.backend.deleteComments(outdated.map(comment => comment.id));
+    return outdated.length;
+  }
+
+  /**
+   * Add a reply to the end of a comment's thread
+   */
+  addReply(commentId: string, reply: CommentReply): void {
+    this.backend.addReply(commentId, reply);
+  }
+
+  /**
+   * Delete a reply from a comment's thread
+   */
+  deleteReply(commentId: string, replyId: string): void {
+    this.backend.deleteReply(commentId, replyId);
+  }
+
+  /**
+   * Mark a comment as resolved, keeping it for the review's history
+   */
+  resolveComment(commentId: string, resolvedBy: string): void {
+    this.backend.setResolved(commentId, { by: resolvedBy, at: new Date().toISOString() });
+  }
+
+  /**
+   * Reopen a resolved comment
+   */
+  unresolveComment(commentId: string): void {
+    this.backend.setResolved(commentId, undefined);
+  }
+
+  /**
+   * Attach a comment somewhere else, e.g. once the reviewer confirms where it moved to
+   */
+  reanchorComment(commentId: string, location: CommentLocation): void {
+    this.backend.reanchorComment(commentId, location);
+  }
+
+  /**
+   * Mark comments as sent in a submission. They leave the review but are kept, so the
+   * submission can be restored.
+   */
+  markSubmitted(commentIds: string[], submissionId: string): void {
+    this.backend.setSubmitted(commentIds, { submissionId, at: new Date().toISOString() });
+  }
+
+  /**
+   * Delete the comments still marked as sent in the given submissions
+   */
+  deleteSubmittedComments(submissionIds: string[]): void {
+    const sent = this.getAllComments().filter(
+      comment => comment.submitted && submissionIds.includes(comment.submitted.submissionId)
+    );
+    if (sent.length > 0) {
+      this.backend.deleteComments(sent.map(comment => comment.id));
+    }
+  }
+
+  /**
+   * Bring back a past submission's comments as pending ones
+   */
+  restoreComments(snapshot: Comment[]): void {
+    this.backend.restoreComments(snapshot);
   }
 
   /**
    * Delete a comment by location (fallback method)
    */
   deleteCommentByLocation(filePath: string, startLine: number, endLine: number): void {
-    this.persistence.deleteCommentByLocation(filePath, startLine, endLine);
+    this.backend.deleteCommentByLocation(filePath, startLine, endLine);
   }
 
   /**
    * Clear all comments
    */
   clearAllComments(): void {
-    this.persistence.clearAllComments();
+    this.backend.clearAllComments();
   }
 
   /**
@@ -102,19 +323,27 @@ export class CommentStorage {
    */
   getAllCommentsWithStatus(currentDiff: FileDiff[]): Array<
     Comment & {
-      validationInfo: {
-        isValid: boolean;
-        newPosition?: { startLine: number; endLine: number };
-        status: 'current' | 'outdated' | 'moved';
-        reason: string;
-      };
+      validationInfo: CommentValidation;
     }
   > {
-    const allComments = this.getAllComments();
-    const fileDiffMap = new Map(currentDiff.map(diff => [diff.filePath, diff]));
+    // Submitted comments are kept for the submission history, not for reviewing
+    const allComments = this.getAllComments().filter(comment => !comment.submitted);
 
     return allComments.map(comment => {
-      const fileDiff = fileDiffMap.get(comment.filePath);
+      // The overall comment belongs to whatever is being reviewed
+      if (comment.scope === 'review') {
+        return {
+          ...comment,
+          validationInfo: {
+            isValid: true,
+            status: 'current' as const,
+            reason: 'Review comment',
+            confidence: 1,
+          },
+        };
+      }
+
+      const fileDiff = findFileDiffForComment(comment, currentDiff);
 
       if (!fileDiff) {
         return {
@@ -123,13 +352,20 @@ export class CommentStorage {
             isValid: false,
             status: 'outdated' as const,
             reason: 'File not found in current diff',
+            confidence: 0,
           },
         };
       }
 
-      const validationInfo = validateAndRepositionComment(comment, fileDiff);
+      // File comments have no lines to follow, so they stay for as long as the file is in the diff
+      const validationInfo =
+        comment.scope === 'file'
+          ? { isValid: true, status: 'current' as const, reason: 'File comment', confidence: 1 }
+          : validateAndRepositionComment(comment, fileDiff);
       return {
         ...comment,
+        // Follow renamed files to their new path
+        filePath: fileDiff.filePath,
         validationInfo,
       };
     });
@@ -151,12 +387,42 @@ export class CommentStorage {
             startLine: comment.validationInfo.newPosition.startLine,
             endLine: comment.validationInfo.newPosition.endLine,
             status: comment.validationInfo.status,
+            approximate: comment.validationInfo.approximate,
           };
         }
         return comment;
       });
   }
 
+  /**
+   * Get the comments on files in the diff whose lines failed validation, with the reason, so
+   * they can be re-attached or cleaned up rather than silently hidden
+   */
+  getOutdatedCommentsForDiff(
+    currentDiff: FileDiff[]
+  ): Array<Comment & { validationInfo: CommentValidation }> {
+    return this.getAllCommentsWithStatus(currentDiff).filter(
+      comment =>
+        !comment.validationInfo.isValid &&
+        findFileDiffForComment(comment, currentDiff) !== undefined
+    );
+  }
+
+  /**
+   * Get the comments on files that are not in the diff. A narrowed view (one commit, only staged
+   * changes, a commit range) leaves out files that are still part of the branch review, so these
+   * are listed apart from outdated comments and never cleaned up with them
+   */
+  getCommentsOutsideDiff(
+    currentDiff: FileDiff[]
+  ): Array<Comment & { validationInfo: CommentValidation }> {
+    return this.getAllCommentsWithStatus(currentDiff).filter(
+      comment =>
+        !comment.validationInfo.isValid &&
+        findFileDiffForComment(comment, currentDiff) === undefined
+    );
+  }
+
   /**
    * Get comments for a specific file in the current diff
    */
@@ -169,15 +435,7 @@ export class CommentStorage {
   /**
    * Validate and reposition a single comment (used by tests)
    */
-  validateAndRepositionComment(
-    comment: Comment,
-    currentFileDiff: FileDiff
-  ): {
-    isValid: boolean;
-    newPosition?: { startLine: number; endLine: number };
-    status: 'current' | 'outdated' | 'moved';
-    reason: string;
-  } {
+  validateAndRepositionComment(comment: Comment, currentFileDiff: FileDiff): CommentValidation {
     return validateAndRepositionComment(comment, currentFileDiff);
   }
 
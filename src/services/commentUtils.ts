@@ -1,6 +1,6 @@
 import * as crypto from 'crypto';
 import { FileDiff } from './gitService';
-import { Comment } from './commentStorage';
+import { Comment, CommentSide } from './commentStorage';
 
 /**
  * Utility functions for comment operations
@@ -14,9 +14,10 @@ export function createCommentAnchor(
   currentBranch: string,
   fileDiff: FileDiff,
   startLine: number,
-  endLine: number
+  endLine: number,
+  side: CommentSide = 'new'
 ): Comment['anchor'] {
-  const fileLines = fileDiff.newContent.split('\n');
+  const fileLines = getSideContent(fileDiff, side).split('\n');
 
   // Extract the commented lines
   const commentedLines = fileLines.slice(startLine - 1, endLine);
@@ -45,6 +46,90 @@ export function createCommentAnchor(
   };
 }
 
+/**
+ * The file content a comment's line numbers refer to: the old version for removed lines
+ */
+export function getSideContent(fileDiff: FileDiff, side: CommentSide = 'new'): string {
+  return side === 'old' ? fileDiff.oldContent : fileDiff.newContent;
+}
+
+// GitHub-style ```suggestion block: the replacement code for the commented lines
+const SUGGESTION_BLOCK = /```suggestion[^\n]*\n([\s\S]*?)\n?```/;
+
+/**
+ * Separate a comment's prose from the replacement code in its first suggestion block
+ */
+export function splitSuggestion(text: string): { text: string; suggestion?: string } {
+  const match = text.match(SUGGESTION_BLOCK);
+  if (!match) {
+    return { text };
+  }
+  return { text: text.replace(SUGGESTION_BLOCK, '').trim(), suggestion: match[1] };
+}
+
+/**
+ * Where a comment's lines are in the file as it is now, following moves with the same
+ * repositioning used for comments in the diff. Lines that were edited are not returned.
+ */
+export function findCommentLinesInText(
+  comment: Comment,
+  fileText: string
+): { startLine: number; endLine: number } | undefined {
+  const result = validateAndRepositionComment(comment, {
+    filePath: comment.filePath,
+    status: 'modified',
+    oldContent: '',
+    newContent: fileText,
+    hunks: [],
+  });
+  // Only lines found as they were; a similar-looking match is no place to write a suggestion
+  return result.isValid && result.confidence === 1 ? result.newPosition : undefined;
+}
+
+/**
+ * Comments in the format shared outside the extension: the repository file and git notes
+ */
+export function serializeComments(comments: Comment[]): string {
+  return JSON.stringify({ version: 1, comments }, null, 2) + '\n';
+}
+
+/**
+ * Read comments written by serializeComments; throws when the text is not valid JSON
+ */
+export function parseSerializedComments(text: string): Comment[] {
+  const parsed = JSON.parse(text);
+  return Array.isArray(parsed.comments) ? parsed.comments : [];
+}
+
+/**
+ * Three-way merge of two edited copies of a comment list, by comment id. A comment changed or
+ * deleted on one side since `base` takes that side's version; new comments from both sides are
+ * kept; when both sides changed the same comment, ours wins.
+ */
+export function mergeComments(base: Comment[], ours: Comment[], theirs: Comment[]): Comment[] {
+  const baseById = new Map(base.map(comment => [comment.id, JSON.stringify(comment)]));
+  const theirsById = new Map(theirs.map(comment => [comment.id, comment]));
+  const ourIds = new Set(ours.map(comment => comment.id));
+
+  const merged: Comment[] = [];
+  ours.forEach(comment => {
+    if (baseById.get(comment.id) !== JSON.stringify(comment)) {
+      merged.push(comment);
+      return;
+    }
+    // Unchanged on our side, so theirs is the latest version, or gone if they deleted it
+    const theirComment = theirsById.get(comment.id);
+    if (theirComment) {
+      merged.push(theirComment);
+    }
+  });
+  theirs
+    .filter(comment => !ourIds.has(comment.id) && !baseById.has(comment.id))
+    .forEach(comment => merged.push(comment));
+
+  return merged;
+}
+
 /**
  * Hash a string for content comparison
  */
@@ -65,24 +150,63 @@ export function normalizeContent(content: string): string {
 }
 
 /**
- * Advanced comment validation with smart repositioning
+ * Find the file diff a comment belongs to, following renames to the file's new path
  */
-export function validateAndRepositionComment(
+export function findFileDiffForComment(
   comment: Comment,
-  currentFileDiff: FileDiff
-): {
+  currentDiff: FileDiff[]
+): FileDiff | undefined {
+  return (
+    currentDiff.find(diff => diff.filePath === comment.filePath) ||
+    currentDiff.find(diff => diff.status === 'renamed' && diff.oldFilePath === comment.filePath)
+  );
+}
+
+// Edited lines scoring below this are not the commented lines any more
+const FUZZY_MATCH_THRESHOLD = 0.6;
+
+// Each line of a match must be at least this similar on its own, so a short line that really
+// changed (e.g. `return true;` to `return false;`) is not taken for an edit of the same line
+const MIN_LINE_SIMILARITY = 0.75;
+
+// Edited lines scoring below this are shown as approximate, for the reviewer to confirm
+const APPROXIMATE_MATCH_CONFIDENCE = 0.85;
+
+// Share of a match's score that comes from the lines themselves; the rest is their context
+const CONTENT_WEIGHT = 0.7;
+
+/**
+ * Where a comment's lines are in the current version of its file. Confidence runs from 0 to 1:
+ * 1 when the lines were found unchanged, lower for lines found by similarity
+ */
+export interface CommentValidation {
   isValid: boolean;
   newPosition?: { startLine: number; endLine: number };
   status: 'current' | 'outdated' | 'moved';
   reason: string;
-} {
+  confidence: number;
+  approximate?: boolean;
+}
+
+/**
+ * Advanced comment validation with smart repositioning
+ */
+export function validateAndRepositionComment(
+  comment: Comment,
+  currentFileDiff: FileDiff
+): CommentValidation {
   try {
     // Handle legacy comments
     if (!comment.anchor) {
-      return { isValid: false, status: 'outdated', reason: 'Legacy comment format' };
+      return {
+        isValid: false,
+        status: 'outdated',
+        reason: 'Legacy comment format',
+        confidence: 0,
+      };
     }
 
-    const currentLines = currentFileDiff.newContent.split('\n');
+    const currentLines = getSideContent(currentFileDiff, comment.side).split('\n');
 
     // First, try exact position match (most common case)
     if (checkExactPosition(comment, currentLines)) {
@@ -91,6 +215,7 @@ export function validateAndRepositionComment(
         status: 'current',
         reason: 'Lines unchanged at original position',
         newPosition: { startLine: comment.startLine, endLine: comment.endLine },
+        confidence: 1,
       };
     }
 
@@ -105,6 +230,21 @@ export function validateAndRepositionComment(
           startLine: repositionResult.startLine!,
           endLine: repositionResult.endLine!,
         },
+        confidence: 1,
+      };
+    }
+
+    // The lines may have been edited, e.g. a variable renamed, so look for the closest match
+    const similarResult = findSimilarLines(comment, currentLines);
+    if (similarResult) {
+      const { startLine, endLine, score } = similarResult;
+      return {
+        isValid: true,
+        status: 'moved',
+        reason: `Lines edited, closest match at ${startLine}-${endLine} (${Math.round(score * 100)}% similar)`,
+        newPosition: { startLine, endLine },
+        confidence: score,
+        approximate: score < APPROXIMATE_MATCH_CONFIDENCE,
       };
     }
 
@@ -113,10 +253,16 @@ export function validateAndRepositionComment(
       isValid: false,
       status: 'outdated',
       reason: 'Lines have been modified or removed',
+      confidence: 0,
     };
   } catch (error) {
     console.warn('Error validating comment:', error, comment);
-    return { isValid: false, status: 'outdated', reason: `Validation error: ${error}` };
+    return {
+      isValid: false,
+      status: 'outdated',
+      reason: `Validation error: ${error}`,
+      confidence: 0,
+    };
   }
 }
 
@@ -224,3 +370,99 @@ function verifyContext(
 
   return true;
 }
+
+/**
+ * Find the stretch of lines most like the commented ones, scored by how little each line had to
+ * be edited and by how much of the surrounding context is still in place
+ */
+function findSimilarLines(
+  comment: Comment,
+  currentLines: string[]
+): { startLine: number; endLine: number; score: number } | undefined {
+  const { lineContent, contextLines } = comment.anchor;
+  const targetLines = lineContent.split('\n');
+  const targetLength = targetLines.length;
+  const hasContext = contextLines.before.length + contextLines.after.length > 0;
+
+  let best: { startLine: number; endLine: number; score: number } | undefined;
+  for (let i = 0; i <= currentLines.length - targetLength; i++) {
+    const similarities = targetLines.map((line, j) => lineSimilarity(line, currentLines[i + j]));
+    if (similarities.some(similarity => similarity < MIN_LINE_SIMILARITY)) {
+      continue;
+    }
+
+    const contentScore =
+      similarities.reduce((sum, similarity) => sum + similarity, 0) / targetLength;
+    const score = hasContext
+      ? CONTENT_WEIGHT * contentScore +
+        (1 - CONTENT_WEIGHT) * contextScore(currentLines, i, i + targetLength - 1, contextLines)
+      : contentScore;
+
+    // On a tie, the candidate nearest the original position wins
+    const startLine = i + 1;
+    if (
+      score >= FUZZY_MATCH_THRESHOLD &&
+      (!best ||
+        score > best.score ||
+        (score === best.score &&
+          Math.abs(startLine - comment.startLine) < Math.abs(best.startLine - comment.startLine)))
+    ) {
+      best = { startLine, endLine: i + targetLength, score };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Similarity of two lines from 0 to 1: the share of words and symbols that need no edit
+ */
+function lineSimilarity(a: string, b: string): number {
+  const aTokens = tokenizeLine(a);
+  const bTokens = tokenizeLine(b);
+  const longest = Math.max(aTokens.length, bTokens.length);
+  if (longest === 0) {
+    return 1;
+  }
+
+  // Levenshtein distance over tokens, keeping one row of the table at a time
+  let previous = Array.from({ length: bTokens.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= aTokens.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= bTokens.length; j++) {
+      const substitution = previous[j - 1] + (aTokens[i - 1] === bTokens[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return 1 - previous[bTokens.length] / longest;
+}
+
+// Words and single punctuation characters, ignoring whitespace and case
+function tokenizeLine(line: string): string[] {
+  return normalizeContent(line).match(/\w+|[^\w\s]/g) || [];
+}
+
+/**
+ * Share of the context lines found unchanged right before and after the candidate lines
+ */
+function contextScore(
+  currentLines: string[],
+  startIndex: number,
+  endIndex: number,
+  expectedContext: { before: string[]; after: string[] }
+): number {
+  const { before, after } = expectedContext;
+  const matches = (line: string, index: number) =>
+    index >= 0 &&
+    index < currentLines.length &&
+    normalizeContent(line) === normalizeContent(currentLines[index]);
+
+  const matchingBefore = before.filter((line, i) =>
+    matches(line, startIndex - before.length + i)
+  ).length;
+  const matchingAfter = after.filter((line, i) => matches(line, endIndex + 1 + i)).length;
+
+  return (matchingBefore + matchingAfter) / (before.length + after.length);
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import { GIT_NOTES_REF } from '../constants';
+import { CommentPersistence } from './commentPersistence';
+import { Comment } from './commentStorage';
+import { parseSerializedComments, serializeComments } from './commentUtils';
+import { GitService } from './gitService';
+
+/**
+ * Keeps comments as a git note under `refs/notes/branch-review` on the reviewed head commit, so
+ * reviews travel with the repository through ordinary push and fetch without committing files.
+ * Comments are held in memory and each change is written to the note in the background.
+ */
+export class GitNotesCommentPersistence extends CommentPersistence {
+  private comments: Comment[] = [];
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(
+    context: vscode.ExtensionContext,
+    private gitService: GitService,
+    private workspaceRoot: string
+  ) {
+    super(context);
+  }
+
+  /**
+   * Load the note on the head commit, or on the nearest earlier commit that has one
+   */
+  async load(): Promise<void> {
+    await this.pendingWrite;
+    try {
+      const note = await this.gitService.readNearestNote(this.workspaceRoot, GIT_NOTES_REF);
+      this.comments = note ? parseSerializedComments(note.text) : [];
+    } catch (error) {
+      this.comments = [];
+      vscode.window.showErrorMessage(`Failed to read review notes: ${describeError(error)}`);
+    }
+  }
+
+  /**
+   * Resolves once every change so far is in the note
+   */
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  protected readComments(): Comment[] | undefined {
+    return this.comments;
+  }
+
+  protected saveComments(comments: Comment[]): void {
+    this.comments = comments;
+
+    // Queued so writes land in order, each on whatever is the head commit at the time. An empty
+    // list is still written, or the nearest older note would bring cleared comments back.
+    const text = serializeComments(comments);
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        const head = await this.gitService.getHeadCommit(this.workspaceRoot);
+        await this.gitService.writeNote(this.workspaceRoot, GIT_NOTES_REF, head, text);
+      })
+      .catch(error => {
+        // Comments stay in memory, but are lost on reload unless the reviewer can fix the cause
+        vscode.window.showErrorMessage(`Failed to write review notes: ${describeError(error)}`);
+      });
+  }
+}
+
+function describeError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -1,14 +1,46 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
+import { spawn } from 'child_process';
 import { simpleGit, SimpleGit } from 'simple-git';
-import { MAIN_BRANCH_NAMES } from '../constants';
+import {
+  BLOB_PROGRESS_INTERVAL,
+  COMMIT_PICKER_LIMIT,
+  DEFAULT_DIFF_OPTIONS,
+  DiffAlgorithm,
+  EMPTY_TREE_HASH,
+  IMAGE_MIME_TYPES,
+  IMAGE_PREVIEW_MAX_BYTES,
+  MAIN_BRANCH_NAMES,
+  NOTES_HISTORY_LIMIT,
+  REPO_COMMENTS_DIR,
+  WHITESPACE_MODES,
+  WhitespaceMode,
+  WORKING_CHANGES_SCOPES,
+  WorkingChangesScope,
+} from '../constants';
 
 export interface FileDiff {
   filePath: string;
-  status: 'added' | 'modified' | 'deleted';
+  oldFilePath?: string; // Previous path for renamed/copied files
+  status: 'added' | 'modified' | 'deleted' | 'renamed' | 'copied';
+  stageState?: 'staged' | 'unstaged' | 'partially-staged'; // Working Changes only
   oldContent: string;
   newContent: string;
   hunks: DiffHunk[];
+  binary?: BinaryFileInfo; // Set when git treats the file as binary - no text content or hunks
+  image?: ImagePreview; // Set for image files (including text-based SVGs)
+}
+
+export interface BinaryFileInfo {
+  oldSize?: number; // Bytes, undefined when the file did not exist on that side
+  newSize?: number;
+}
+
+export interface ImagePreview {
+  oldSrc?: string; // data: URIs, undefined when missing or too large to preview
+  newSrc?: string;
 }
 
 export interface DiffHunk {
@@ -26,8 +58,42 @@ export interface DiffLine {
   newLineNumber?: number;
 }
 
+export interface CommitInfo {
+  hash: string;
+  shortHash: string;
+  subject: string;
+  author: string;
+  date: string;
+}
+
+export type DiffProgressCallback = (message: string) => void;
+
+export interface DiffOptions {
+  contextLines: number;
+  algorithm: DiffAlgorithm;
+  whitespace: WhitespaceMode;
+}
+
+interface ChangedFile {
+  filePath: string;
+  oldFilePath?: string;
+  status: FileDiff['status'];
+}
+
 export class GitService {
   private git: SimpleGit | undefined;
+  private diffOptions: DiffOptions = { ...DEFAULT_DIFF_OPTIONS };
+
+  getDiffOptions(): DiffOptions {
+    return { ...this.diffOptions };
+  }
+
+  /**
+   * Options used by every diff fetched from now on
+   */
+  setDiffOptions(options: DiffOptions): void {
+    this.diffOptions = { ...options };
+  }
 
   async isGitRepository(workspaceRoot: string): Promise<boolean> {
     try {
@@ -161,64 +227,144 @@ export class GitService {
     }
   }
 
-  async getDiffWithBranch(workspaceRoot: string, baseBranch: string): Promise<FileDiff[]> {
+  async getDiffWithBranch(
+    workspaceRoot: string,
+    baseBranch: string,
+    onProgress?: DiffProgressCallback
+  ): Promise<FileDiff[]> {
     if (!this.git) {
       this.git = simpleGit(workspaceRoot);
     }
 
     const currentBranch = await this.getCurrentBranch(workspaceRoot);
+    const mergeBase = await this.getMergeBase(workspaceRoot, baseBranch, currentBranch);
+
+    // Diff between current branch and base branch (since their merge base)
+    const changedFiles = await this.getChangedFiles([`${baseBranch}...${currentBranch}`]);
+    return this.buildFileDiffs(workspaceRoot, changedFiles, {
+      diffArgs: [`${baseBranch}...${currentBranch}`],
+      oldRef: mergeBase,
+      newRef: currentBranch,
+      onProgress,
+    });
+  }
+
+  /**
+   * The commit a branch forked from its base, which a branch diff's old side is read from
+   */
+  async getMergeBase(
+    workspaceRoot: string,
+    baseBranch: string,
+    currentBranch: string
+  ): Promise<string> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    const mergeBase = await this.git.raw(['merge-base', baseBranch, currentBranch]);
+    return mergeBase.trim();
+  }
+
+  /**
+   * Get the diff for a commit range: `A..B`, `A...B`, or a single commit against its parent
+   */
+  async getDiffForCommitRange(
+    workspaceRoot: string,
+    commitRange: string,
+    onProgress?: DiffProgressCallback
+  ): Promise<FileDiff[]> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    const { from, to } = await this.resolveCommitRange(workspaceRoot, commitRange);
+    // The range is typed in the webview, so its refs are never read as options
+    const diffArgs = ['--end-of-options', from, to];
+    const changedFiles = await this.getChangedFiles(diffArgs);
+    return this.buildFileDiffs(workspaceRoot, changedFiles, {
+      diffArgs,
+      oldRef: from,
+      newRef: to,
+      onProgress,
+    });
+  }
+
+  async getRecentCommits(
+    workspaceRoot: string,
+    limit: number = COMMIT_PICKER_LIMIT
+  ): Promise<CommitInfo[]> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
 
     try {
-      // Get the diff between current branch and base branch
-      const diffSummary = await this.git.diffSummary([`${baseBranch}...${currentBranch}`]);
-      const fileDiffs: FileDiff[] = [];
-
-      for (const file of diffSummary.files) {
-        const filePath = file.file;
-        let status: 'added' | 'modified' | 'deleted' = 'modified';
-
-        // Type guard to check if file has insertions/deletions properties
-        if ('insertions' in file && 'deletions' in file) {
-          if (file.insertions > 0 && file.deletions === 0) {
-            status = 'added';
-          } else if (file.insertions === 0 && file.deletions > 0) {
-            status = 'deleted';
-          }
-        }
+      return await this.getCommitLog([`-n${limit}`]);
+    } catch (error) {
+      // Repository without commits
+      return [];
+    }
+  }
 
-        // Get detailed diff for this file with GitHub-like settings
-        const detailedDiff = await this.git.diff([
-          `${baseBranch}...${currentBranch}`,
-          '-U7', // More context like GitHub (7 lines)
-          '--histogram', // GitHub's preferred diff algorithm
-          '--ignore-space-change', // Ignore whitespace changes for better alignment
-          '--',
-          filePath,
-        ]);
-        const hunks = this.parseDiff(detailedDiff);
-
-        // Get file contents
-        let oldContent = '';
-        let newContent = '';
+  /**
+   * Commits on the current branch that are not on the base branch, oldest first
+   */
+  async getBranchCommits(workspaceRoot: string, baseBranch: string): Promise<CommitInfo[]> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
 
-        try {
-          if (status !== 'added') {
-            oldContent = await this.git.show([`${baseBranch}:${filePath}`]);
-          }
-          if (status !== 'deleted') {
-            newContent = await this.git.show([`${currentBranch}:${filePath}`]);
-          }
-        } catch (error) {
-          // Handle case where file doesn't exist in one of the branches
-        }
+    try {
+      return await this.getCommitLog(['--reverse', `${baseBranch}..HEAD`]);
+    } catch (error) {
+      // Unknown base branch or repository without commits
+      return [];
+    }
+  }
 
-        fileDiffs.push({
-          filePath,
-          status,
-          oldContent,
-          newContent,
-          hunks,
-        });
+  async getDiffWithMain(
+    workspaceRoot: string,
+    onProgress?: DiffProgressCallback
+  ): Promise<FileDiff[]> {
+    const mainBranch = await this.getMainBranch(workspaceRoot);
+    return this.getDiffWithBranch(workspaceRoot, mainBranch, onProgress);
+  }
+
+  /**
+   * Get uncommitted changes: staged (HEAD vs index), unstaged (index vs working tree), or all
+   */
+  async getDiffWithWorkingDirectory(
+    workspaceRoot: string,
+    scope: WorkingChangesScope = WORKING_CHANGES_SCOPES.ALL,
+    onProgress?: DiffProgressCallback
+  ): Promise<FileDiff[]> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    // An empty ref means the index, and no new ref means the working tree
+    const diffArgs =
+      scope === WORKING_CHANGES_SCOPES.STAGED
+        ? ['--cached']
+        : scope === WORKING_CHANGES_SCOPES.UNSTAGED
+          ? []
+          : ['HEAD'];
+
+    try {
+      const changedFiles = await this.getChangedFiles(diffArgs);
+      const stageStates = await this.getStageStates();
+      const fileDiffs = await this.buildFileDiffs(workspaceRoot, changedFiles, {
+        diffArgs,
+        oldRef: scope === WORKING_CHANGES_SCOPES.UNSTAGED ? '' : 'HEAD',
+        newRef: scope === WORKING_CHANGES_SCOPES.STAGED ? '' : undefined,
+        onProgress,
+      });
+      fileDiffs.forEach(fileDiff => {
+        fileDiff.stageState = stageStates.get(fileDiff.filePath);
+      });
+
+      // `git diff` never shows untracked files, so add them as new files
+      if (scope !== WORKING_CHANGES_SCOPES.STAGED) {
+        fileDiffs.push(...(await this.getUntrackedFileDiffs(workspaceRoot)));
       }
 
       return fileDiffs;
@@ -227,98 +373,637 @@ export class GitService {
     }
   }
 
-  async getDiffWithMain(workspaceRoot: string): Promise<FileDiff[]> {
-    const mainBranch = await this.getMainBranch(workspaceRoot);
-    return this.getDiffWithBranch(workspaceRoot, mainBranch);
+  async hasUncommittedChanges(workspaceRoot: string): Promise<boolean> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    try {
+      // The repository file comment backend writes into the working tree; that is not a change
+      const status = await this.git.status();
+      return status.files.some(file => !file.path.startsWith(`${REPO_COMMENTS_DIR}/`));
+    } catch (error) {
+      return false;
+    }
   }
 
-  async getDiffWithWorkingDirectory(workspaceRoot: string): Promise<FileDiff[]> {
+  /**
+   * Name recorded on resolved comments: git's user.name, or the OS user when it is not set
+   */
+  async getUserName(workspaceRoot: string): Promise<string> {
+    try {
+      if (!this.git) {
+        this.git = simpleGit(workspaceRoot);
+      }
+
+      const name = (await this.git.raw(['config', 'user.name'])).trim();
+      if (name) {
+        return name;
+      }
+    } catch (error) {
+      // Not configured, or not a repository
+    }
+    return os.userInfo().username;
+  }
+
+  /**
+   * URL of the repository's origin remote, or of its first remote; empty when it has none
+   */
+  async getRemoteUrl(workspaceRoot: string): Promise<string> {
+    try {
+      if (!this.git) {
+        this.git = simpleGit(workspaceRoot);
+      }
+
+      const remote = await this.findRemote();
+      return remote ? remote.refs.fetch : '';
+    } catch (error) {
+      return '';
+    }
+  }
+
+  async getHeadCommit(workspaceRoot: string): Promise<string> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    return (await this.git.raw(['rev-parse', 'HEAD'])).trim();
+  }
+
+  /**
+   * The note under `notesRef` on the newest commit in HEAD's history that has one, so notes
+   * written on an earlier commit still apply after more commits are made
+   */
+  async readNearestNote(
+    workspaceRoot: string,
+    notesRef: string
+  ): Promise<{ commit: string; text: string } | undefined> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    const notedCommits = new Set(await this.listNotedCommits(notesRef));
+    if (notedCommits.size === 0) {
+      return undefined;
+    }
+
+    const history = await this.git.raw(['rev-list', `--max-count=${NOTES_HISTORY_LIMIT}`, 'HEAD']);
+    const commit = history.split('\n').find(sha => notedCommits.has(sha));
+    if (!commit) {
+      return undefined;
+    }
+
+    const text = await this.git.raw(['notes', `--ref=${notesRef}`, 'show', commit]);
+    return { commit, text };
+  }
+
+  /**
+   * Replace the note under `notesRef` on a commit
+   */
+  async writeNote(
+    workspaceRoot: string,
+    notesRef: string,
+    commit: string,
+    text: string
+  ): Promise<void> {
     if (!this.git) {
       this.git = simpleGit(workspaceRoot);
     }
 
+    // Passed as a file, since a note can be longer than a command line allows
+    const notePath = path.join(os.tmpdir(), `branch-review-note-${process.pid}-${Date.now()}`);
+    await fs.promises.writeFile(notePath, text);
     try {
-      // Get the diff between the latest commit (HEAD) and working directory
-      const diffSummary = await this.git.diffSummary(['HEAD']);
-      const fileDiffs: FileDiff[] = [];
-
-      for (const file of diffSummary.files) {
-        const filePath = file.file;
-        let status: 'added' | 'modified' | 'deleted' = 'modified';
-
-        // Type guard to check if file has insertions/deletions properties
-        if ('insertions' in file && 'deletions' in file) {
-          if (file.insertions > 0 && file.deletions === 0) {
-            status = 'added';
-          } else if (file.insertions === 0 && file.deletions > 0) {
-            status = 'deleted';
-          }
-        }
+      await this.git.raw([
+        'notes',
+        `--ref=${notesRef}`,
+        'add',
+        '--force',
+        '--file',
+        notePath,
+        commit,
+      ]);
+    } finally {
+      await fs.promises.rm(notePath, { force: true });
+    }
+  }
+
+  /**
+   * Push the notes ref to the repository's remote, returning the remote's name
+   */
+  async pushNotes(workspaceRoot: string, notesRef: string): Promise<string> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    const remote = await this.findRemote();
+    if (!remote) {
+      throw new Error('This repository has no remote');
+    }
 
-        // Get detailed diff for this file with GitHub-like settings
-        const detailedDiff = await this.git.diff([
-          'HEAD',
-          '-U7', // More context like GitHub (7 lines)
-          '--histogram', // GitHub's preferred diff algorithm
-          '--ignore-space-change', // Ignore whitespace changes for better alignment
-          '--',
-          filePath,
-        ]);
-        const hunks = this.parseDiff(detailedDiff);
-
-        // Get file contents
-        let oldContent = '';
-        let newContent = '';
+    await this.git.raw(['push', remote.name, `${notesRef}:${notesRef}`]);
+    // The remote now has our notes, which the next fetch merges against
+    await this.git.raw(['update-ref', this.getRemoteNotesRef(remote.name, notesRef), notesRef]);
+    return remote.name;
+  }
+
+  /**
+   * Fetch the remote's notes and fold them into ours commit by commit. Where both sides have a
+   * note on the same commit, `mergeNotes` decides the result, given the remote's note as last
+   * fetched or pushed as the common base. Returns how many notes changed.
+   */
+  async fetchNotes(
+    workspaceRoot: string,
+    notesRef: string,
+    mergeNotes: (ours: string, theirs: string, base: string | undefined) => string
+  ): Promise<number> {
+    if (!this.git) {
+      this.git = simpleGit(workspaceRoot);
+    }
+
+    const remote = await this.findRemote();
+    if (!remote) {
+      throw new Error('This repository has no remote');
+    }
+
+    // Fetched beside ours rather than over it, so diverged notes are merged instead of lost
+    const remoteRef = this.getRemoteNotesRef(remote.name, notesRef);
+    // The remote's notes as last fetched or pushed, the base each merge starts from
+    const lastSeen = new Map<string, string>();
+    for (const commit of await this.listNotedCommits(remoteRef)) {
+      lastSeen.set(commit, await this.git.raw(['notes', `--ref=${remoteRef}`, 'show', commit]));
+    }
+    await this.git.raw(['fetch', remote.name, `+${notesRef}:${remoteRef}`]);
+
+    const ourNotes = new Set(await this.listNotedCommits(notesRef));
+    let changed = 0;
+    for (const commit of await this.listNotedCommits(remoteRef)) {
+      const theirs = await this.git.raw(['notes', `--ref=${remoteRef}`, 'show', commit]);
+      const ours = ourNotes.has(commit)
+        ? await this.git.raw(['notes', `--ref=${notesRef}`, 'show', commit])
+        : undefined;
+      const merged = ours === undefined ? theirs : mergeNotes(ours, theirs, lastSeen.get(commit));
+      if (merged !== ours) {
+        await this.writeNote(workspaceRoot, notesRef, commit, merged);
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  // Where a remote's notes are fetched to, beside ours
+  private getRemoteNotesRef(remoteName: string, notesRef: string): string {
+    return notesRef.replace(/^refs\/notes\//, `refs/notes/remotes/${remoteName}/`);
+  }
+
+  private async findRemote() {
+    const remotes = await this.git!.getRemotes(true);
+    return remotes.find(r => r.name === 'origin') || remotes[0];
+  }
+
+  // Commits with a note under `notesRef`; none when the ref does not exist yet
+  private async listNotedCommits(notesRef: string): Promise<string[]> {
+    try {
+      const list = await this.git!.raw(['notes', `--ref=${notesRef}`, 'list']);
+      return list
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => line.trim().split(' ')[1]);
+    } catch (error) {
+      return [];
+    }
+  }
+
+  /**
+   * Build file diffs from a single patch for all changed files and a single batch read of their
+   * contents. `newRef` undefined reads new contents from the working tree.
+   */
+  private async buildFileDiffs(
+    workspaceRoot: string,
+    changedFiles: ChangedFile[],
+    options: {
+      diffArgs: string[];
+      oldRef: string;
+      newRef: string | undefined;
+      onProgress?: DiffProgressCallback;
+    }
+  ): Promise<FileDiff[]> {
+    const { diffArgs, oldRef, newRef, onProgress } = options;
+    if (changedFiles.length === 0) {
+      return [];
+    }
+
+    onProgress?.(`Loading diff for ${changedFiles.length} files...`);
+
+    // One patch for every file, with GitHub-like settings
+    const patch = await this.git!.raw([
+      '-c',
+      'core.quotepath=off', // Keep non-ASCII paths readable in patch headers
+      'diff',
+      // The patch is parsed for a/ and b/ paths, whatever the user's diff config says
+      '--src-prefix=a/',
+      '--dst-prefix=b/',
+      '--no-ext-diff',
+      '--no-color',
+      '-M',
+      '-C',
+      ...this.getDiffOptionArgs(),
+      ...diffArgs,
+    ]);
+    const hunksByFile = this.parseDiff(patch);
+    const binaryFiles = await this.getBinaryFiles(diffArgs);
+
+    const oldSpec = (file: ChangedFile) => `${oldRef}:${file.oldFilePath || file.filePath}`;
+    const newSpec = (file: ChangedFile) => `${newRef}:${file.filePath}`;
+    const blobSpecs: string[] = [];
+    changedFiles.forEach(file => {
+      if (file.status !== 'added') blobSpecs.push(oldSpec(file));
+      if (file.status !== 'deleted' && newRef !== undefined) blobSpecs.push(newSpec(file));
+    });
+
+    const contents = await this.readBlobs(workspaceRoot, blobSpecs, read =>
+      onProgress?.(`Reading file contents (${read}/${blobSpecs.length})...`)
+    );
 
+    return changedFiles.map(file => {
+      const { filePath, oldFilePath, status } = file;
+      const oldBuffer = status !== 'added' ? contents.get(oldSpec(file)) : undefined;
+      let newBuffer: Buffer | undefined;
+
+      if (status !== 'deleted' && newRef !== undefined) {
+        newBuffer = contents.get(newSpec(file));
+      } else if (status !== 'deleted') {
         try {
-          if (status !== 'added') {
-            oldContent = await this.git.show([`HEAD:${filePath}`]);
+          newBuffer = fs.readFileSync(path.join(workspaceRoot, filePath));
+        } catch (fsError) {
+          // File might be deleted in working directory
+        }
+      }
+
+      const binary = binaryFiles.has(filePath);
+      return {
+        filePath,
+        oldFilePath,
+        status,
+        oldContent: !binary && oldBuffer ? oldBuffer.toString('utf8') : '',
+        newContent: !binary && newBuffer ? newBuffer.toString('utf8') : '',
+        hunks: hunksByFile.get(filePath) || [],
+        ...this.describeFileContents(filePath, binary, oldBuffer, newBuffer),
+      };
+    });
+  }
+
+  private getDiffOptionArgs(): string[] {
+    const { contextLines, algorithm, whitespace } = this.diffOptions;
+    const args = [`-U${contextLines}`, `--diff-algorithm=${algorithm}`];
+
+    if (whitespace === WHITESPACE_MODES.IGNORE_CHANGES) {
+      args.push('--ignore-space-change');
+    } else if (whitespace === WHITESPACE_MODES.IGNORE_ALL) {
+      args.push('--ignore-all-space');
+    }
+    return args;
+  }
+
+  /**
+   * Paths git treats as binary, which `--numstat` reports as "-\t-" instead of line counts
+   */
+  private async getBinaryFiles(diffArgs: string[]): Promise<Set<string>> {
+    const output = await this.git!.raw(['diff', '-M', '-C', '--numstat', '-z', ...diffArgs]);
+    const fields = output.split('\0');
+    const binaryFiles = new Set<string>();
+
+    // Each entry is "added\tremoved\tpath", or "added\tremoved\t" followed by old and new paths
+    for (let i = 0; i < fields.length; i++) {
+      const match = fields[i].match(/^(-|\d+)\t(-|\d+)\t(.*)$/);
+      if (!match) continue;
+
+      let filePath = match[3];
+      if (filePath === '') {
+        filePath = fields[i + 2];
+        i += 2;
+      }
+      if (match[1] === '-' && match[2] === '-') {
+        binaryFiles.add(filePath);
+      }
+    }
+
+    return binaryFiles;
+  }
+
+  /**
+   * Size card details for binary files and inline previews for images
+   */
+  private describeFileContents(
+    filePath: string,
+    binary: boolean,
+    oldBuffer: Buffer | undefined,
+    newBuffer: Buffer | undefined
+  ): Pick<FileDiff, 'binary' | 'image'> {
+    const mimeType = IMAGE_MIME_TYPES[path.extname(filePath).toLowerCase()];
+    const toDataUri = (buffer: Buffer | undefined) =>
+      buffer && buffer.length <= IMAGE_PREVIEW_MAX_BYTES
+        ? `data:${mimeType};base64,${buffer.toString('base64')}`
+        : undefined;
+
+    const details: Pick<FileDiff, 'binary' | 'image'> = {};
+    if (binary) {
+      details.binary = { oldSize: oldBuffer?.length, newSize: newBuffer?.length };
+    }
+    if (mimeType) {
+      details.image = { oldSrc: toDataUri(oldBuffer), newSrc: toDataUri(newBuffer) };
+    }
+    return details;
+  }
+
+  /**
+   * Read many `<rev>:<path>` blobs with one `git cat-file --batch` process.
+   * Missing blobs are left out of the result; a failed read rejects.
+   */
+  private readBlobs(
+    workspaceRoot: string,
+    blobSpecs: string[],
+    onProgress?: (read: number) => void
+  ): Promise<Map<string, Buffer>> {
+    return new Promise((resolve, reject) => {
+      const contents = new Map<string, Buffer>();
+      if (blobSpecs.length === 0) {
+        resolve(contents);
+        return;
+      }
+
+      const catFile = spawn('git', ['cat-file', '--batch'], { cwd: workspaceRoot });
+      let pending = Buffer.alloc(0);
+      let index = 0;
+
+      catFile.stdout.on('data', (chunk: Buffer) => {
+        pending = Buffer.concat([pending, chunk]);
+
+        // Each entry is "<sha> <type> <size>\n<content>\n", or "<spec> missing\n"
+        while (index < blobSpecs.length) {
+          const headerEnd = pending.indexOf(0x0a);
+          if (headerEnd === -1) break;
+
+          const header = pending.subarray(0, headerEnd).toString('utf8');
+          if (/ (missing|ambiguous)$/.test(header)) {
+            pending = pending.subarray(headerEnd + 1);
+          } else {
+            const size = parseInt(header.split(' ')[2], 10);
+            if (pending.length < headerEnd + 1 + size + 1) break;
+
+            const content = pending.subarray(headerEnd + 1, headerEnd + 1 + size);
+            contents.set(blobSpecs[index], Buffer.from(content));
+            pending = pending.subarray(headerEnd + 1 + size + 1);
           }
-          if (status !== 'deleted') {
-            // For working directory, read from file system
-            const fs = require('fs');
-            const path = require('path');
-            const fullPath = path.join(workspaceRoot, filePath);
-            try {
-              newContent = fs.readFileSync(fullPath, 'utf8');
-            } catch (fsError) {
-              // File might be deleted in working directory
-              newContent = '';
-            }
+
+          index++;
+          if (onProgress && (index % BLOB_PROGRESS_INTERVAL === 0 || index === blobSpecs.length)) {
+            onProgress(index);
           }
-        } catch (error) {
-          // Handle case where file doesn't exist in HEAD
         }
+      });
 
-        fileDiffs.push({
-          filePath,
-          status,
-          oldContent,
-          newContent,
-          hunks,
-        });
+      let stderr = '';
+      catFile.stderr.on('data', (chunk: Buffer) => {
+        stderr += chunk.toString();
+      });
+
+      catFile.on('error', reject);
+      // Writing to a process that already exited fails with EPIPE, reported by 'close' instead
+      catFile.stdin.on('error', () => {});
+      catFile.on('close', code => {
+        if (code !== 0) {
+          reject(new Error(`git cat-file exited with code ${code}: ${stderr.trim()}`));
+          return;
+        }
+        resolve(contents);
+      });
+      catFile.stdin.end(blobSpecs.join('\n') + '\n');
+    });
+  }
+
+  private async getCommitLog(logArgs: string[]): Promise<CommitInfo[]> {
+    // Unit separator keeps commit subjects with arbitrary characters intact
+    const output = await this.git!.raw([
+      'log',
+      ...logArgs,
+      '--date=short',
+      '--format=%H%x1f%h%x1f%s%x1f%an%x1f%ad',
+    ]);
+
+    return output
+      .split('\n')
+      .filter(line => line.trim().length > 0)
+      .map(line => {
+        const [hash, shortHash, subject, author, date] = line.split('\x1f');
+        return { hash, shortHash, subject, author, date };
+      });
+  }
+
+  /**
+   * Untracked, non-ignored files as added files with a single all-added hunk
+   */
+  private async getUntrackedFileDiffs(workspaceRoot: string): Promise<FileDiff[]> {
+    const output = await this.git!.raw([
+      'ls-files',
+      '--others',
+      '--exclude-standard',
+      '-z',
+      '--',
+      '.',
+      `:(exclude)${REPO_COMMENTS_DIR}`, // Comment files are not changes to review
+    ]);
+    const untrackedPaths = output.split('\0').filter(filePath => filePath.length > 0);
+
+    return untrackedPaths.map(filePath => {
+      let newBuffer: Buffer | undefined;
+      try {
+        newBuffer = fs.readFileSync(path.join(workspaceRoot, filePath));
+      } catch (fsError) {
+        // File removed since it was listed
       }
 
-      return fileDiffs;
-    } catch (error) {
-      throw error;
+      // Same heuristic as git: a NUL byte near the start means binary
+      const binary = !!newBuffer && newBuffer.subarray(0, 8000).includes(0);
+      const newContent = newBuffer && !binary ? newBuffer.toString('utf8') : '';
+
+      return {
+        filePath,
+        status: 'added' as const,
+        stageState: 'unstaged' as const,
+        oldContent: '',
+        newContent,
+        hunks: this.synthesizeAddedHunks(newContent),
+        ...this.describeFileContents(filePath, binary, undefined, newBuffer),
+      };
+    });
+  }
+
+  private synthesizeAddedHunks(content: string): DiffHunk[] {
+    if (content.length === 0) {
+      return [];
     }
+
+    // A trailing newline ends the last line rather than starting a new one
+    const lines = content.replace(/\n$/, '').split('\n');
+    return [
+      {
+        oldStart: 0,
+        oldLines: 0,
+        newStart: 1,
+        newLines: lines.length,
+        lines: lines.map((line, index) => ({
+          type: 'added' as const,
+          content: line,
+          newLineNumber: index + 1,
+        })),
+      },
+    ];
   }
 
-  async hasUncommittedChanges(workspaceRoot: string): Promise<boolean> {
+  /**
+   * Whether each changed file's edits are staged, unstaged, or split between the two
+   */
+  private async getStageStates(): Promise<Map<string, NonNullable<FileDiff['stageState']>>> {
+    const status = await this.git!.status();
+    const stageStates = new Map<string, NonNullable<FileDiff['stageState']>>();
+
+    status.files.forEach(file => {
+      const isStaged = file.index !== ' ' && file.index !== '?';
+      const isUnstaged = file.working_dir !== ' ';
+      stageStates.set(
+        file.path,
+        isStaged && isUnstaged ? 'partially-staged' : isStaged ? 'staged' : 'unstaged'
+      );
+    });
+
+    return stageStates;
+  }
+
+  /**
+   * Resolve a commit range into the revisions its diff is between: the parent of a single
+   * commit, the merge base for `A...B`. Refs that git would read as options, or that do not
+   * resolve, are rejected.
+   */
+  async resolveCommitRange(
+    workspaceRoot: string,
+    commitRange: string
+  ): Promise<{ from: string; to: string }> {
     if (!this.git) {
       this.git = simpleGit(workspaceRoot);
     }
 
+    const range = commitRange.trim();
+    const rangeMatch = range.match(/^(.*?)(\.\.\.?)(.*)$/);
+    const refs = rangeMatch ? [rangeMatch[1] || 'HEAD', rangeMatch[3] || 'HEAD'] : [range];
+    if (refs.some(ref => !ref || ref.startsWith('-'))) {
+      throw new Error(`Invalid commit range: ${commitRange}`);
+    }
+
+    if (!rangeMatch) {
+      // Single commit: compare against its parent
+      await this.resolveRevision(range);
+      return { from: await this.resolveRevision(`${range}^`), to: range };
+    }
+
+    const from = await this.resolveRevision(refs[0]);
+    const to = refs[1];
+    await this.resolveRevision(to);
+
+    if (rangeMatch[2] === '...') {
+      // Like `git diff A...B`, compare from the merge base
+      return { from: await this.getMergeBase(workspaceRoot, from, to), to };
+    }
+
+    return { from, to };
+  }
+
+  /**
+   * Verify a revision, falling back to the empty tree for the parent of a root commit
+   */
+  private async resolveRevision(revision: string): Promise<string> {
     try {
-      const status = await this.git.status();
-      return status.files.length > 0;
+      const resolved = await this.git!.raw([
+        'rev-parse',
+        '--verify',
+        '--end-of-options',
+        `${revision}^{commit}`,
+      ]);
+      return resolved.trim();
     } catch (error) {
-      return false;
+      if (/(\^|~1)$/.test(revision)) {
+        return EMPTY_TREE_HASH;
+      }
+      throw new Error(`Unknown revision: ${revision}`);
+    }
+  }
+
+  /**
+   * List changed files using git's rename (-M) and copy (-C) detection
+   */
+  private async getChangedFiles(diffArgs: string[]): Promise<ChangedFile[]> {
+    const output = await this.git!.raw(['diff', '--name-status', '-z', '-M', '-C', ...diffArgs]);
+    const fields = output.split('\0');
+    const changedFiles: ChangedFile[] = [];
+
+    // Format: <status>[score]\0<path>\0 or <status><score>\0<old path>\0<new path>\0
+    for (let i = 0; i < fields.length; i++) {
+      const statusLetter = fields[i].charAt(0);
+      if (!statusLetter) continue;
+
+      if (statusLetter === 'R' || statusLetter === 'C') {
+        changedFiles.push({
+          filePath: fields[i + 2],
+          oldFilePath: fields[i + 1],
+          status: statusLetter === 'R' ? 'renamed' : 'copied',
+        });
+        i += 2;
+      } else {
+        let status: FileDiff['status'] = 'modified';
+        if (statusLetter === 'A') {
+          status = 'added';
+        } else if (statusLetter === 'D') {
+          status = 'deleted';
+        }
+        changedFiles.push({ filePath: fields[i + 1], status });
+        i += 1;
+      }
+    }
+
+    return changedFiles;
+  }
+
+  /**
+   * Split a multi-file patch into hunks per file, keyed by the file's new path
+   */
+  private parseDiff(diffText: string): Map<string, DiffHunk[]> {
+    const hunksByFile = new Map<string, DiffHunk[]>();
+
+    for (const filePatch of diffText.split(/^(?=diff --git )/m)) {
+      const filePath = this.getPatchFilePath(filePatch);
+      if (filePath) {
+        hunksByFile.set(filePath, this.parseHunks(filePatch));
+      }
     }
+
+    return hunksByFile;
+  }
+
+  private getPatchFilePath(filePatch: string): string | undefined {
+    // Renames and copies name the new path explicitly, even without content changes
+    const targetMatch = filePatch.match(/^(?:rename|copy) to (.*)$/m);
+    if (targetMatch) return targetMatch[1];
+
+    // Git ends this line with a tab when the path contains spaces
+    const newFileMatch = filePatch.match(/^\+\+\+ b\/(.*?)\t?$/m);
+    if (newFileMatch) return newFileMatch[1];
+
+    // Deleted and mode-only changes: "diff --git a/<path> b/<path>"
+    const headerMatch = filePatch.match(/^diff --git a\/.* b\/(.*)$/m);
+    return headerMatch ? headerMatch[1] : undefined;
   }
 
-  private parseDiff(diffText: string): DiffHunk[] {
+  private parseHunks(diffText: string): DiffHunk[] {
     const hunks: DiffHunk[] = [];
     const lines = diffText.split('\n');
 
@@ -2,6 +2,17 @@
 export { GitService } from './gitService';
 export { CommentStorage } from './commentStorage';
 export { CommentPersistence } from './commentPersistence';
+export { RepoFileCommentPersistence } from './repoFileCommentPersistence';
+export { GitNotesCommentPersistence } from './gitNotesCommentPersistence';
+export { SubmissionHistory } from './submissionHistory';
 export * from './commentUtils';
-export type { FileDiff, DiffHunk, DiffLine } from './gitService';
-export type { Comment } from './commentStorage';
+export type { FileDiff, DiffHunk, DiffLine, CommitInfo } from './gitService';
+export type {
+  Comment,
+  CommentLocation,
+  CommentReply,
+  CommentScope,
+  CommentSet,
+  CommentSide,
+} from './commentStorage';
+export type { Submission } from './submissionHistory';
@@ -0,0 +1,100 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { REPO_COMMENTS_DIR } from '../constants';
+import { CommentPersistence } from './commentPersistence';
+import { Comment } from './commentStorage';
+import { mergeComments, parseSerializedComments, serializeComments } from './commentUtils';
+
+/**
+ * Keeps a branch's comments in `.branch-review/<branch>.json` inside the repository, so teammates
+ * and tools working in the same checkout can read and add to them. Edits made to the file from
+ * outside are merged with ours whenever we save.
+ */
+export class RepoFileCommentPersistence extends CommentPersistence {
+  readonly filePath: string;
+  private watcher: vscode.FileSystemWatcher;
+  private changeEmitter = new vscode.EventEmitter<void>();
+  // The file's comments as last read or written: the common base for merging outside edits
+  private base: Comment[] = [];
+  private lastWritten = '';
+
+  // Fires when the file is changed by anything other than this extension
+  readonly onDidChange = this.changeEmitter.event;
+
+  constructor(
+    context: vscode.ExtensionContext,
+    readonly workspaceRoot: string,
+    readonly branch: string
+  ) {
+    super(context);
+    this.filePath = path.join(workspaceRoot, REPO_COMMENTS_DIR, `${branch}.json`);
+
+    this.watcher = vscode.workspace.createFileSystemWatcher(this.filePath);
+    const handleChange = () => {
+      if (this.readFileText() !== this.lastWritten) {
+        this.changeEmitter.fire();
+      }
+    };
+    this.watcher.onDidChange(handleChange);
+    this.watcher.onDidCreate(handleChange);
+    this.watcher.onDidDelete(handleChange);
+  }
+
+  dispose(): void {
+    this.watcher.dispose();
+  }
+
+  protected readComments(): Comment[] | undefined {
+    const comments = this.readFile();
+    if (!comments) {
+      // Unreadable for now, so carry on from what was last read
+      return JSON.parse(JSON.stringify(this.base));
+    }
+    // Keep a copy, since callers edit the comments they are given before saving them
+    this.base = JSON.parse(JSON.stringify(comments));
+    return comments;
+  }
+
+  protected saveComments(comments: Comment[]): void {
+    const theirs = this.readFile();
+    if (!theirs) {
+      // Writing now would replace whatever is in the file, e.g. both sides of a merge conflict
+      vscode.window.showWarningMessage(
+        `Comments were not saved: ${REPO_COMMENTS_DIR}/${this.branch}.json could not be read. Fix the file and try again.`
+      );
+      return;
+    }
+    const merged = mergeComments(this.base, comments, theirs);
+
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    this.lastWritten = serializeComments(merged);
+    fs.writeFileSync(this.filePath, this.lastWritten);
+    this.base = merged;
+  }
+
+  /**
+   * The file's comments; empty when there is no file yet, undefined when it cannot be parsed
+   * (e.g. caught halfway through someone else's write)
+   */
+  private readFile(): Comment[] | undefined {
+    const text = this.readFileText();
+    if (text === undefined) {
+      return [];
+    }
+
+    try {
+      return parseSerializedComments(text);
+    } catch (error) {
+      return undefined;
+    }
+  }
+
+  private readFileText(): string | undefined {
+    try {
+      return fs.readFileSync(this.filePath, 'utf8');
+    } catch (error) {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import * as vscode from 'vscode';
+import { ReviewMode, STORAGE_KEYS, SUBMISSION_HISTORY_LIMIT } from '../constants';
+import { Comment } from './commentStorage';
+
+// A review as it was sent, so it can be copied again or its comments brought back
+export interface Submission {
+  id: string;
+  timestamp: string;
+  baseBranch: string;
+  currentBranch: string;
+  comparison: string; // What was compared, e.g. "feature...main" or a commit range
+  mode: ReviewMode;
+  comments: Comment[]; // Snapshot of the submitted comments
+  prompt: string; // The generated review text that was copied
+}
+
+/**
+ * Keeps the workspace's past submissions, newest first
+ */
+export class SubmissionHistory {
+  constructor(private context: vscode.ExtensionContext) {}
+
+  getSubmissions(): Submission[] {
+    return [...(this.context.workspaceState.get<Submission[]>(STORAGE_KEYS.SUBMISSIONS) || [])];
+  }
+
+  /**
+   * Add a submission to the history, dropping the oldest beyond the limit. The dropped
+   * submissions are returned, so the comments kept for them can be let go.
+   */
+  record(submission: Omit<Submission, 'id' | 'timestamp'>): {
+    recorded: Submission;
+    evicted: Submission[];
+  } {
+    const recorded: Submission = {
+      ...submission,
+      id: Date.now().toString() + Math.random().toString(36).substr(2, 9),
+      timestamp: new Date().toISOString(),
+      // A copy, so later edits to the comments leave the record as it was sent
+      comments: JSON.parse(JSON.stringify(submission.comments)),
+    };
+
+    const submissions = [recorded, ...this.getSubmissions()];
+    this.context.workspaceState.update(
+      STORAGE_KEYS.SUBMISSIONS,
+      submissions.slice(0, SUBMISSION_HISTORY_LIMIT)
+    );
+    return { recorded, evicted: submissions.slice(SUBMISSION_HISTORY_LIMIT) };
+  }
+}
@@ -1,11 +1,15 @@
 /// <reference types="mocha" />
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as os from 'os';
 import { GitService, FileDiff } from '../services/gitService';
 import { CommentStorage } from '../services/commentStorage';
 import { ReviewPanel } from '../ui/reviewPanel';
 import { WebviewRenderer } from '../ui/webviewRenderer';
 import { SyntaxHighlighter } from '../ui/syntaxHighlighter';
+import { WEBVIEW_COMMANDS } from '../constants';
 
 // Import test utilities from integration test
 import {
@@ -13,6 +17,10 @@ import {
   MockGitService,
   MockExtensionContext,
   MockWebviewPanel,
+  MockWebview,
+  createTestComment,
+  createTempGitRepo,
+  cleanupTempGitRepos,
 } from './testUtils';
 
 /**
@@ -40,6 +48,7 @@ suite('Diff Pipeline Integration Tests', () => {
 
   teardown(() => {
     testRepo.cleanup();
+    cleanupTempGitRepos();
   });
 
   suite('Git Service to Diff Generation', () => {
@@ -138,6 +147,439 @@ suite('Diff Pipeline Integration Tests', () => {
       assert.ok(hasModifiedLine);
       assert.ok(hasInsertedLine);
     });
+
+    test('should include untracked files as added files in working changes', async () => {
+      // Arrange: A real repository with one committed file and one untracked file
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+
+      writeFile('committed.txt', 'committed\n');
+      git('add committed.txt');
+      git('commit -q -m initial');
+      writeFile('new-file.js', 'const a = 1;\nconst b = 2;\n');
+
+      // Act: Get working changes from the real git service
+      const realGitService = new GitService();
+      const allDiff = await realGitService.getDiffWithWorkingDirectory(repoRoot);
+      const stagedDiff = await realGitService.getDiffWithWorkingDirectory(repoRoot, 'staged');
+
+      // Assert: The untracked file is an added file with a synthesized hunk
+      assert.strictEqual(allDiff.length, 1);
+      const newFile = allDiff[0];
+      assert.strictEqual(newFile.filePath, 'new-file.js');
+      assert.strictEqual(newFile.status, 'added');
+      assert.strictEqual(newFile.hunks.length, 1);
+      assert.deepStrictEqual(
+        newFile.hunks[0].lines.map(line => [line.type, line.newLineNumber, line.content]),
+        [
+          ['added', 1, 'const a = 1;'],
+          ['added', 2, 'const b = 2;'],
+        ]
+      );
+
+      // Untracked files are never staged
+      assert.strictEqual(stagedDiff.length, 0);
+    });
+
+    test('should load a multi-file branch diff in one pass with progress', async () => {
+      // Arrange: A real repository with a branch touching several files
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      const lines = (count: number) =>
+        Array.from({ length: count }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+
+      ['a.txt', 'b.txt', 'old name.txt'].forEach(file => writeFile(file, lines(20)));
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/batch');
+      writeFile('a.txt', lines(20).replace('line 3\n', 'changed 3\n'));
+      writeFile('b.txt', lines(21));
+      git('mv "old name.txt" "new name.txt"');
+      git('commit -q -am change');
+
+      // Act: Load the branch diff, collecting loading status updates
+      const progress: string[] = [];
+      const realGitService = new GitService();
+      const diff = await realGitService.getDiffWithBranch(repoRoot, 'main', message =>
+        progress.push(message)
+      );
+
+      // Assert: Each file gets only its own hunks and contents
+      const byPath = new Map(diff.map(fileDiff => [fileDiff.filePath, fileDiff]));
+      assert.strictEqual(diff.length, 3);
+
+      const aLines = byPath.get('a.txt')!.hunks.flatMap(hunk => hunk.lines);
+      assert.deepStrictEqual(
+        aLines.filter(line => line.type !== 'unchanged').map(line => line.content),
+        ['line 3', 'changed 3']
+      );
+      const bLines = byPath.get('b.txt')!.hunks.flatMap(hunk => hunk.lines);
+      assert.deepStrictEqual(
+        bLines.filter(line => line.type !== 'unchanged').map(line => line.content),
+        ['line 21']
+      );
+      assert.ok(byPath.get('b.txt')!.oldContent.endsWith('line 20\n'));
+      assert.ok(byPath.get('b.txt')!.newContent.endsWith('line 21\n'));
+
+      const renamed = byPath.get('new name.txt')!;
+      assert.strictEqual(renamed.status, 'renamed');
+      assert.strictEqual(renamed.oldFilePath, 'old name.txt');
+      assert.strictEqual(renamed.oldContent, renamed.newContent);
+
+      // Progress is reported with file counts
+      assert.ok(progress.includes('Loading diff for 3 files...'));
+      assert.ok(progress.some(message => /Reading file contents \(\d+\/\d+\)/.test(message)));
+    });
+    test('should fail a content read when git cannot read the blobs', async () => {
+      // Arrange: A directory git does not know as a repository
+      const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'non-git-'));
+
+      try {
+        // Act & Assert: The batched read rejects instead of returning empty contents
+        await assert.rejects(
+          (new GitService() as any).readBlobs(tempDir, ['HEAD:app.js']),
+          /git cat-file exited with code/
+        );
+      } finally {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+      }
+    });
+    test('should parse hunks whatever prefixes and colors the diff config asks for', async () => {
+      // Arrange: A repository configured to drop the a/ and b/ prefixes and always color
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      git('config diff.noprefix true');
+      git('config color.diff always');
+
+      writeFile('app.txt', 'one\ntwo\nthree\n');
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/noprefix');
+      writeFile('app.txt', 'one\n2\nthree\n');
+      git('commit -q -am change');
+
+      // Act: Load the branch diff
+      const [fileDiff] = await new GitService().getDiffWithBranch(repoRoot, 'main');
+
+      // Assert: The change is still found under the file's path
+      assert.strictEqual(fileDiff.filePath, 'app.txt');
+      assert.deepStrictEqual(
+        fileDiff.hunks
+          .flatMap(hunk => hunk.lines)
+          .filter(line => line.type !== 'unchanged')
+          .map(line => `${line.type}:${line.content}`),
+        ['removed:two', 'added:2']
+      );
+    });
+    test('should describe binary files, preview images and collapse very large files', async () => {
+      // Arrange: A branch changing a binary file, an image and a file past the line threshold
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      const pngHeader = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00];
+
+      writeFile('data.bin', Buffer.from([0, 1, 2, 3]));
+      writeFile('logo.png', Buffer.from(pngHeader));
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/binary');
+      writeFile('data.bin', Buffer.alloc(2048));
+      writeFile('logo.png', Buffer.from([...pngHeader, 0x01]));
+      writeFile(
+        'generated.js',
+        Array.from({ length: 3500 }, (_, i) => `const value${i} = ${i};`).join('\n')
+      );
+      git('add .');
+      git('commit -q -m change');
+
+      // Act: Load and render the branch diff
+      const diff = await new GitService().getDiffWithBranch(repoRoot, 'main');
+      const byPath = new Map(diff.map(fileDiff => [fileDiff.filePath, fileDiff]));
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/binary',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/binary'],
+        diffStats: { added: 3500, removed: 0 },
+        reviewMode: 'branch-compare' as const,
+      });
+
+      // Assert: Binary files carry sizes instead of garbled text
+      const binary = byPath.get('data.bin')!;
+      assert.deepStrictEqual(binary.binary, { oldSize: 4, newSize: 2048 });
+      assert.strictEqual(binary.newContent, '');
+      assert.strictEqual(binary.hunks.length, 0);
+      assert.ok(html.includes('Binary file changed (4 B → 2.0 KB)'));
+
+      // Images get both versions for side-by-side and onion-skin previews
+      const image = byPath.get('logo.png')!;
+      assert.ok(image.image!.oldSrc!.startsWith('data:image/png;base64,'));
+      assert.ok(image.image!.newSrc!.startsWith('data:image/png;base64,'));
+      assert.ok(html.includes('data-controller="image-diff"'));
+      assert.ok(html.includes('Onion skin'));
+
+      // Files over the threshold are collapsed behind "Load diff"
+      assert.ok(html.includes('data-lazy-file-auto-value="false"'));
+      assert.ok(html.includes('Large diff (3500 lines) is hidden'));
+      assert.ok(!html.includes('value3499'));
+    });
+    test('should hide unchanged lines between hunks behind expanders', async () => {
+      // Arrange: A 60 line file changed at line 40, with a comment on unchanged line 5
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      const lines = Array.from({ length: 60 }, (_, i) => `line ${i + 1}`);
+
+      writeFile('app.txt', lines.join('\n') + '\n');
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/context');
+      lines[39] = 'changed 40';
+      writeFile('app.txt', lines.join('\n') + '\n');
+      git('commit -q -am change');
+
+      const diff = await new GitService().getDiffWithBranch(repoRoot, 'main');
+      const comment = createTestComment('c1', 'app.txt', 5, 5, 'Why is this here?');
+
+      // Act: Render the review with the comment
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/context',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/context'],
+        diffStats: { added: 1, removed: 1 },
+        reviewMode: 'branch-compare' as const,
+        comments: [comment],
+      });
+
+      // Assert: Hidden lines sit behind expanders around the hunk (lines 33-47)
+      const expanderRange = (start: number, end: number) =>
+        `data-context-expander-start-value="${start}" data-context-expander-end-value="${end}"`;
+      assert.ok(html.includes(expanderRange(1, 4)));
+      assert.ok(html.includes(expanderRange(6, 32)));
+      assert.ok(html.includes(expanderRange(48, 60)));
+      assert.ok(!html.includes('data-line-id="app.txt:new:10"'));
+
+      // The commented line stays visible so its comment has a row to attach to
+      assert.ok(html.includes('data-line-id="app.txt:new:5"'));
+
+      // Act: Expand 20 lines down from the commented line
+      const reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, repoRoot);
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).renderer = webviewRenderer;
+      (reviewPanel as any).currentDiff = diff;
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.EXPAND_CONTEXT,
+        data: { id: 'app.txt:32', filePath: 'app.txt', startLine: 6, endLine: 25, oldOffset: 0 },
+      });
+
+      // Assert: The revealed rows are commentable like any other unchanged line
+      const contextMessage = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .find(message => message.command === WEBVIEW_COMMANDS.CONTEXT_LOADED);
+      assert.ok(contextMessage);
+      assert.strictEqual(contextMessage.id, 'app.txt:32');
+      assert.ok(contextMessage.html.includes('data-line-id="app.txt:new:6"'));
+      assert.ok(contextMessage.html.includes('data-line-id="app.txt:new:25"'));
+      assert.ok(!contextMessage.html.includes('data-line-id="app.txt:new:26"'));
+      assert.ok(contextMessage.html.includes('click->comment#addComment'));
+
+      // Act: Expand lines of a file no longer in the diff
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.EXPAND_CONTEXT,
+        data: { id: 'gone.txt:32', filePath: 'gone.txt', startLine: 6, endLine: 25, oldOffset: 0 },
+      });
+
+      // Assert: The request is answered with a failure the expander can settle on and retry from
+      const failedMessage = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .find(message => message.command === WEBVIEW_COMMANDS.CONTEXT_FAILED);
+      assert.ok(failedMessage);
+      assert.strictEqual(failedMessage.id, 'gone.txt:32');
+      assert.ok(html.includes('context:failed->context-expander#handleFailed'));
+    });
+    test('should re-fetch the diff when diff options change', async () => {
+      // Arrange: A Python file whose only change is indentation
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+
+      writeFile('app.py', 'def main():\n  run()\n');
+      writeFile('util.py', 'def helper():\n    pass\n');
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/indent');
+      writeFile('app.py', 'def main():\n    run()\n');
+      writeFile('util.py', 'def helper():\n    return 1\n');
+      git('commit -q -am reindent');
+
+      const realGitService = new GitService();
+      const reviewPanel = new ReviewPanel(mockContext, realGitService, commentStorage, repoRoot);
+      (reviewPanel as any).modeManager.setBaseBranch('main');
+
+      // Act: Load with the default options, which ignore whitespace changes
+      const defaultDiff = await realGitService.getDiffWithBranch(repoRoot, 'main');
+
+      // Assert: The indentation-only change has no hunks
+      const appHunks = (diff: FileDiff[]) => diff.find(file => file.filePath === 'app.py')!.hunks;
+      assert.strictEqual(appHunks(defaultDiff).length, 0);
+
+      // Act: Show all whitespace with no context, as the header toggles would
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_DIFF_OPTIONS,
+        data: { contextLines: '0', algorithm: 'patience', whitespace: 'show-all' },
+      });
+
+      // Assert: The options are kept and the current diff is re-fetched with them
+      assert.deepStrictEqual(realGitService.getDiffOptions(), {
+        contextLines: 0,
+        algorithm: 'patience',
+        whitespace: 'show-all',
+      });
+      const currentDiff: FileDiff[] = (reviewPanel as any).currentDiff;
+      const changedLines = appHunks(currentDiff).flatMap(hunk => hunk.lines);
+      assert.deepStrictEqual(
+        changedLines.map(line => `${line.type}:${line.content}`),
+        ['removed:  run()', 'added:    run()']
+      );
+    });
+
+    test('should anchor comments on a three-dot range to the merge base and refuse bad ranges', async () => {
+      // Arrange: main and a feature branch that have both moved on since they split
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+
+      writeFile('app.js', 'const a = 1;\nconst b = 2;\n');
+      git('add .');
+      git('commit -q -m initial');
+      const mergeBase = git('rev-parse HEAD');
+      git('checkout -q -b feature');
+      writeFile('app.js', 'const a = 1;\nconst b = 3;\n');
+      git('commit -q -am change');
+      git('checkout -q main');
+      writeFile('other.js', 'const c = 4;\n');
+      git('add .');
+      git('commit -q -m other');
+      git('checkout -q feature');
+
+      const reviewPanel = new ReviewPanel(mockContext, new GitService(), commentStorage, repoRoot);
+      const errors: string[] = [];
+      (reviewPanel as any).showError = (message: string) => errors.push(message);
+      const handleMessage = (message: any) =>
+        (reviewPanel as any).messageHandler.handleMessage(message);
+
+      // Act: Review main...feature and comment on the changed line
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_COMMIT_RANGE,
+        data: { commitRange: 'main...feature' },
+      });
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: { filePath: 'app.js', startLine: 2, endLine: 2, text: 'Why 3?', codeSnippet: '' },
+      });
+
+      // Assert: Only the branch's change is shown, and the comment is anchored to the merge base
+      const currentDiff: FileDiff[] = (reviewPanel as any).currentDiff;
+      assert.deepStrictEqual(
+        currentDiff.map(file => file.filePath),
+        ['app.js']
+      );
+      const [comment] = commentStorage.getAllComments();
+      assert.strictEqual(comment.anchor.baseBranch, mergeBase);
+      assert.strictEqual(comment.anchor.currentBranch, 'feature');
+      assert.strictEqual(errors.length, 0);
+
+      // Act: Type a range git would read as an option, then one with an unknown ref
+      const outputFile = path.join(repoRoot, 'out.txt');
+      for (const commitRange of [`--output=${outputFile}`, 'nope...feature']) {
+        await handleMessage({
+          command: WEBVIEW_COMMANDS.CHANGE_COMMIT_RANGE,
+          data: { commitRange },
+        });
+      }
+
+      // Assert: Both are refused before git runs a diff with them
+      assert.strictEqual(errors.length, 2);
+      assert.ok(errors[0].includes(`Invalid commit range: --output=${outputFile}`));
+      assert.ok(errors[1].includes('Unknown revision: nope'));
+      assert.strictEqual(fs.existsSync(outputFile), false);
+    });
+
+    test('should read removed lines from the fork point once the base branch moves on', async () => {
+      // Arrange: A branch removing line 20, then main gaining 4 lines at the top
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      const lines = Array.from({ length: 30 }, (_, i) => `${i + 1}`);
+
+      writeFile('numbers.txt', lines.join('\n') + '\n');
+      git('add .');
+      git('commit -q -m initial');
+      const mergeBase = git('rev-parse HEAD');
+      git('checkout -q -b feature');
+      writeFile('numbers.txt', lines.filter(line => line !== '20').join('\n') + '\n');
+      git('commit -q -am remove');
+      git('checkout -q main');
+      writeFile('numbers.txt', ['a', 'b', 'c', 'd', ...lines].join('\n') + '\n');
+      git('commit -q -am prepend');
+      git('checkout -q feature');
+
+      const realGitService = new GitService();
+      const reviewPanel = new ReviewPanel(mockContext, realGitService, commentStorage, repoRoot);
+      (reviewPanel as any).modeManager.setBaseBranch('main');
+      (reviewPanel as any).currentDiff = await realGitService.getDiffWithBranch(repoRoot, 'main');
+
+      // Act: Comment on the removed line
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: {
+          filePath: 'numbers.txt',
+          startLine: 20,
+          endLine: 20,
+          side: 'old',
+          text: 'Why remove this?',
+          codeSnippet: '',
+        },
+      });
+
+      // Assert: The old side is the fork point's version, not main's newer one
+      const [fileDiff]: FileDiff[] = (reviewPanel as any).currentDiff;
+      assert.strictEqual(fileDiff.oldContent, lines.join('\n') + '\n');
+      const [comment] = commentStorage.getAllComments();
+      assert.strictEqual(comment.anchor.lineContent, '20');
+      assert.strictEqual(comment.anchor.baseBranch, mergeBase);
+    });
+
+    test('should stop following diff settings once the panel is closed', async () => {
+      // Arrange: Settings changes and the panel's closing are ours to fire
+      const configurationChanged = new vscode.EventEmitter<any>();
+      const panelClosed = new vscode.EventEmitter<void>();
+      const onDidChangeConfiguration = vscode.workspace.onDidChangeConfiguration;
+      const createWebviewPanel = vscode.window.createWebviewPanel;
+      (vscode.workspace as any).onDidChangeConfiguration = configurationChanged.event;
+      (vscode.window as any).createWebviewPanel = () => ({
+        webview: mockPanel.webview,
+        onDidDispose: panelClosed.event,
+        dispose: () => panelClosed.fire(),
+      });
+      const diffSettingsChanged = {
+        affectsConfiguration: (section: string) => section === 'branchReview.diff',
+      };
+
+      try {
+        const reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+        const handled: string[] = [];
+        (reviewPanel as any).messageHandler.handleMessage = async (message: any) => {
+          handled.push(message.command);
+        };
+        reviewPanel.createPanel();
+
+        // Act: Change the diff settings while the panel is open
+        configurationChanged.fire(diffSettingsChanged);
+
+        // Assert: The open review picks them up
+        assert.deepStrictEqual(handled, [WEBVIEW_COMMANDS.CHANGE_DIFF_OPTIONS]);
+
+        // Act: Close the panel, then change the settings again
+        panelClosed.fire();
+        configurationChanged.fire(diffSettingsChanged);
+
+        // Assert: The closed review no longer listens
+        assert.deepStrictEqual(handled, [WEBVIEW_COMMANDS.CHANGE_DIFF_OPTIONS]);
+        assert.strictEqual(reviewPanel.getPanel(), undefined);
+      } finally {
+        (vscode.workspace as any).onDidChangeConfiguration = onDidChangeConfiguration;
+        (vscode.window as any).createWebviewPanel = createWebviewPanel;
+      }
+    });
   });
 
   suite('Diff to Webview Rendering Pipeline', () => {
@@ -218,6 +660,237 @@ suite('Diff Pipeline Integration Tests', () => {
       assert.ok(diff.some(d => d.newContent.includes('def greet')));
     });
 
+    test('should highlight changed words inside modified lines', async () => {
+      // Arrange: A small edit inside a long line of JavaScript
+      const diff: FileDiff[] = [
+        {
+          filePath: 'src/cart.js',
+          status: 'modified',
+          oldContent: 'const total = price * quantity + shipping;\n',
+          newContent: 'const total = price * quantity * taxRate + shipping;\n',
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 1,
+              newStart: 1,
+              newLines: 1,
+              lines: [
+                {
+                  type: 'removed',
+                  content: 'const total = price * quantity + shipping;',
+                  oldLineNumber: 1,
+                },
+                {
+                  type: 'added',
+                  content: 'const total = price * quantity * taxRate + shipping;',
+                  newLineNumber: 1,
+                },
+              ],
+            },
+          ],
+        },
+      ];
+
+      // Act: Render the modified line
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/tax',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/tax'],
+        diffStats: { added: 1, removed: 1 },
+        reviewMode: 'branch-compare' as const,
+      });
+
+      // Assert: Only the inserted words are marked, inside Prism's token spans
+      const addedWords = [...html.matchAll(/<span class="br-word-added">(.*?)<\/span>/g)]
+        .map(match => match[1])
+        .join('');
+      assert.strictEqual(addedWords, '* taxRate ');
+      assert.ok(
+        html.includes('<span class="token operator"><span class="br-word-added">*</span></span>')
+      );
+      assert.ok(html.includes('<span class="token keyword">const</span>'));
+      assert.ok(!html.includes('<span class="br-word-removed">'));
+    });
+
+    test('should render the unified layout and remember it for the workspace', async () => {
+      // Arrange: One line replaced by two, with a line of context on either side
+      const diff: FileDiff[] = [
+        {
+          filePath: 'src/cart.js',
+          status: 'modified',
+          oldContent: 'start();\nconst total = price;\nfinish();\n',
+          newContent: 'start();\nconst total = price * taxRate;\nlog(total);\nfinish();\n',
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 3,
+              newStart: 1,
+              newLines: 4,
+              lines: [
+                { type: 'unchanged', content: 'start();', oldLineNumber: 1, newLineNumber: 1 },
+                { type: 'removed', content: 'const total = price;', oldLineNumber: 2 },
+                { type: 'added', content: 'const total = price * taxRate;', newLineNumber: 2 },
+                { type: 'added', content: 'log(total);', newLineNumber: 3 },
+                { type: 'unchanged', content: 'finish();', oldLineNumber: 3, newLineNumber: 4 },
+              ],
+            },
+          ],
+        },
+      ];
+      const reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).renderer = webviewRenderer;
+      (reviewPanel as any).currentDiff = diff;
+
+      // Act: Switch layouts, as the header toggle would
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_DIFF_LAYOUT,
+        data: { layout: 'unified' },
+      });
+
+      // Assert: The choice is stored for the workspace and the diff re-rendered with it
+      assert.strictEqual(mockContext.workspaceState.get('branchReview.diffLayout'), 'unified');
+      const html = mockPanel.webview.html;
+      assert.ok(html.includes('br-unified-diff-table br-layout-unified'));
+      assert.ok(html.includes('data-diff-layout-selected-value="unified"'));
+
+      // Assert: Removed lines come before the added lines, one content cell per row
+      const rows = [...html.matchAll(/<tr class="br-diff-row[^"]*"[^>]*>[\s\S]*?<\/tr>/g)].map(
+        match => match[0]
+      );
+      assert.deepStrictEqual(
+        rows.map(row => (row.match(/br-line-(removed|added)/) || ['', 'unchanged'])[1]),
+        ['unchanged', 'removed', 'added', 'added', 'unchanged']
+      );
+      assert.ok(
+        rows.every(row => (row.match(/data-search-target="searchableContent"/g) || []).length === 1)
+      );
+
+      // Assert: Rows are selected and commented by their own side's line number
+      assert.ok(!rows[1].includes('data-line-id='));
+      assert.ok(rows[1].includes('data-old-line-id="src/cart.js:old:2"'));
+      assert.ok(rows[3].includes('data-line-id="src/cart.js:new:3"'));
+      assert.ok(rows[3].includes('data-line-number="3" data-action="click->selection#select"'));
+      assert.ok(rows[3].includes('data-action="click->comment#addComment"'));
+      assert.ok(rows[4].includes('data-line-id="src/cart.js:new:4"'));
+
+      // Assert: The paired lines still get word highlights
+      assert.ok(rows[2].includes('<span class="br-word-added">'));
+    });
+
+    test('should let removed lines be selected and commented on the old side', async () => {
+      // Arrange: A deleted guard clause
+      const diff: FileDiff[] = [
+        {
+          filePath: 'src/auth.js',
+          status: 'modified',
+          oldContent: 'function login(user) {\n  if (!user) return;\n  start(user);\n}\n',
+          newContent: 'function login(user) {\n  start(user);\n}\n',
+          hunks: [
+            {
+              oldStart: 1,
+              oldLines: 4,
+              newStart: 1,
+              newLines: 3,
+              lines: [
+                {
+                  type: 'unchanged',
+                  content: 'function login(user) {',
+                  oldLineNumber: 1,
+                  newLineNumber: 1,
+                },
+                { type: 'removed', content: '  if (!user) return;', oldLineNumber: 2 },
+                {
+                  type: 'unchanged',
+                  content: '  start(user);',
+                  oldLineNumber: 3,
+                  newLineNumber: 2,
+                },
+                { type: 'unchanged', content: '}', oldLineNumber: 4, newLineNumber: 3 },
+              ],
+            },
+          ],
+        },
+      ];
+      const reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).currentDiff = diff;
+
+      // Act: Render the diff
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/auth',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/auth'],
+        diffStats: { added: 0, removed: 1 },
+        reviewMode: 'branch-compare' as const,
+      });
+
+      // Assert: The removed row is selectable and commentable by its old line number
+      const removedRow = html.match(/<tr class="br-diff-row br-line-removed"[\s\S]*?<\/tr>/)![0];
+      assert.ok(removedRow.includes('data-old-line-id="src/auth.js:old:2"'));
+      assert.ok(removedRow.includes('data-selection-target="selectableRow"'));
+      assert.ok(
+        removedRow.includes(
+          'data-line-number="2" data-line-side="old" data-action="click->selection#select"'
+        )
+      );
+      assert.ok(
+        removedRow.includes(
+          'data-line-number="2" data-line-side="old" data-action="click->comment#addComment"'
+        )
+      );
+
+      // Act: Comment on the removed line, as the old-side + button would
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: {
+          filePath: 'src/auth.js',
+          startLine: 2,
+          endLine: 2,
+          side: 'old',
+          text: 'Why did you delete this?',
+          codeSnippet: 'Lines 2-2',
+        },
+      });
+
+      // Assert: The comment is anchored to the old content and stays valid
+      const [comment] = commentStorage.getValidCommentsForDiff(diff);
+      assert.strictEqual(comment.side, 'old');
+      assert.strictEqual(comment.anchor.lineContent, '  if (!user) return;');
+      assert.deepStrictEqual(comment.anchor.contextLines.before, ['function login(user) {']);
+      assert.strictEqual(comment.status, 'current');
+    });
+
+    test('should show old and new paths for renamed files', async () => {
+      // Arrange: A file moved to a new location
+      const diff: FileDiff[] = [
+        {
+          filePath: 'src/main.js',
+          oldFilePath: 'src/app.js',
+          status: 'renamed',
+          oldContent: 'function main() {}',
+          newContent: 'function main() {}',
+          hunks: [],
+        },
+      ];
+
+      // Act: Render webview
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/rename',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/rename'],
+        diffStats: { added: 0, removed: 0 },
+        reviewMode: 'branch-compare' as const,
+      });
+
+      // Assert: Header shows old → new
+      assert.ok(html.includes('br-file-path-old">src/app.js</span>'));
+      assert.ok(html.includes('→'));
+      assert.ok(html.includes('data-action="click->file#open">src/main.js</span>'));
+    });
+
     test('should handle empty diffs gracefully', async () => {
       // Arrange: Create branch with no changes
       testRepo.createBranch('feature/empty-diff');
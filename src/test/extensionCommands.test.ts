@@ -1,9 +1,32 @@
 /// <reference types="mocha" />
 import * as assert from 'assert';
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 import { GitService, FileDiff } from '../services/gitService';
 import { CommentStorage, Comment } from '../services/commentStorage';
 import { ReviewPanel } from '../ui/reviewPanel';
-import { COMMANDS, WEBVIEW_COMMANDS, REVIEW_MODES } from '../constants';
+import {
+  buildSubmitPickItems,
+  generateReviewSummary,
+  recordSubmission,
+} from '../commands/submitComments';
+import {
+  findCommentLinesInText,
+  mergeComments,
+  parseSerializedComments,
+  serializeComments,
+} from '../services/commentUtils';
+import { GitNotesCommentPersistence } from '../services/gitNotesCommentPersistence';
+import { RepoFileCommentPersistence } from '../services/repoFileCommentPersistence';
+import { SubmissionHistory } from '../services/submissionHistory';
+import {
+  COMMANDS,
+  WEBVIEW_COMMANDS,
+  REVIEW_MODES,
+  STORAGE_BACKENDS,
+  SUBMISSION_HISTORY_LIMIT,
+} from '../constants';
 
 // Import test utilities
 import {
@@ -12,6 +35,8 @@ import {
   MockExtensionContext,
   MockWebviewPanel,
   createTestComment,
+  createTempGitRepo,
+  cleanupTempGitRepos,
 } from './testUtils';
 
 /**
@@ -37,6 +62,7 @@ suite('Extension Commands Integration Tests', () => {
 
   teardown(() => {
     testRepo.cleanup();
+    cleanupTempGitRepos();
   });
 
   suite('Extension Activation and Setup', () => {
@@ -358,6 +384,217 @@ suite('Extension Commands Integration Tests', () => {
       assert.strictEqual(allComments.length, 1); // Comment still exists
       // Valid comments may be 0 if comment is outdated
     });
+
+    test('should group the review summary by severity, most important first', async () => {
+      // Arrange: Comments of mixed severity, one older comment without any
+      const nit = {
+        ...createTestComment('sev-1', 'src/app.js', 1, 1, 'Rename this'),
+        severity: 'nit' as const,
+      };
+      const blocker = {
+        ...createTestComment('sev-2', 'src/utils.js', 9, 9, 'Crashes on empty input'),
+        severity: 'blocker' as const,
+        category: 'bug' as const,
+      };
+      const legacy = createTestComment('sev-3', 'src/app.js', 4, 4, 'Add a test');
+      const major = {
+        ...createTestComment('sev-4', 'src/app.js', 7, 7, 'Leaks the token'),
+        severity: 'major' as const,
+        category: 'security' as const,
+      };
+
+      // Act: Generate the prompt
+      const summary = await generateReviewSummary([nit, blocker, legacy, major]);
+
+      // Assert: Sections run blocker → nit, numbered in that order, with categories shown
+      const headings = summary.split('\n').filter(line => /^#{2,4} /.test(line));
+      assert.deepStrictEqual(headings, [
+        '## Blocker (1)',
+        '### `src/utils.js`',
+        '#### Issue 1 (Lines 9) [bug]',
+        '## Major (1)',
+        '### `src/app.js`',
+        '#### Issue 2 (Lines 7) [security]',
+        '## Minor (1)',
+        '### `src/app.js`',
+        '#### Issue 3 (Lines 4)',
+        '## Nit (1)',
+        '### `src/app.js`',
+        '#### Issue 4 (Lines 1)',
+      ]);
+    });
+
+    test('should load comments with an unknown severity as the default severity', async () => {
+      // Arrange: A stored comment whose severity came from a hand-edited file
+      commentStorage.addComment({
+        ...createTestComment('sev-unknown', 'src/app.js', 3, 3, 'Check this'),
+        severity: '<img src=x onerror=alert(1)>' as any,
+      });
+
+      // Act: Load it and generate the prompt
+      const [comment] = commentStorage.getAllComments();
+      const summary = await generateReviewSummary([comment]);
+
+      // Assert: It is treated as minor, so it still makes it into the prompt
+      assert.strictEqual(comment.severity, 'minor');
+      assert.ok(summary.includes('## Minor (1)'));
+      assert.ok(summary.includes('Check this'));
+    });
+
+    test('should present suggestion blocks as replacement code for the commented lines', async () => {
+      // Arrange: A suggestion on line 2, after an edit pushed that line down to 3
+      const comment = createTestComment(
+        'suggest-1',
+        'src/app.js',
+        2,
+        2,
+        'Use const here\n```suggestion\nconst total = 0;\n```',
+        {
+          baseBranch: 'main',
+          currentBranch: 'feature',
+          lineContent: 'let total = 0;',
+          contextLines: { before: ['function sum() {'], after: ['}'] },
+          originalLineNumbers: { start: 2, end: 2 },
+        }
+      );
+      const workingText = '// totals\nfunction sum() {\nlet total = 0;\n}';
+
+      // Act: Generate the prompt and locate the lines the suggestion would replace
+      const summary = await generateReviewSummary([comment]);
+      const target = findCommentLinesInText(comment, workingText);
+
+      // Assert: The block is spelled out as a replacement, and the edit follows the moved line
+      assert.ok(summary.includes('**Feedback:** Use const here\n'));
+      assert.ok(!summary.includes('```suggestion'));
+      assert.ok(
+        summary.includes('**Suggested Replacement (Line 2):**\n```\nconst total = 0;\n```')
+      );
+      assert.deepStrictEqual(target, { startLine: 3, endLine: 3 });
+      assert.strictEqual(findCommentLinesInText(comment, 'function sum() {}'), undefined);
+    });
+
+    test('should list comments to pick for submission grouped by file, all ticked', () => {
+      // Arrange: An overall comment, a file note and line comments across two files
+      const overall = {
+        ...createTestComment('pick-1', '', 0, 0, 'Nearly there'),
+        scope: 'review' as const,
+      };
+      const later = {
+        ...createTestComment('pick-2', 'src/app.js', 9, 12, 'Crashes on empty input'),
+        severity: 'blocker' as const,
+        category: 'bug' as const,
+      };
+      const earlier = createTestComment('pick-3', 'src/app.js', 2, 2, 'Rename this\nIt is unclear');
+      const note = {
+        ...createTestComment('pick-4', 'src/app.js', 0, 0, 'Split this file'),
+        scope: 'file' as const,
+      };
+      const other = {
+        ...createTestComment('pick-5', 'src/utils.js', 4, 4, 'Add a test'),
+        severity: 'nit' as const,
+      };
+
+      // Act: Build the picker entries
+      const items = buildSubmitPickItems([later, other, overall, earlier, note]);
+
+      // Assert: Overall first, then each file under a separator, with severity and a preview
+      assert.deepStrictEqual(
+        items.map(item => [item.label, item.description, item.detail, item.comment?.id]),
+        [
+          ['Overall', undefined, 'Nearly there', 'pick-1'],
+          ['src/app.js', undefined, undefined, undefined],
+          ['File note', 'Minor', 'Split this file', 'pick-4'],
+          ['Lines 2', 'Minor', 'Rename this', 'pick-3'],
+          ['Lines 9-12', 'Blocker · bug', 'Crashes on empty input', 'pick-2'],
+          ['src/utils.js', undefined, undefined, undefined],
+          ['Lines 4', 'Nit', 'Add a test', 'pick-5'],
+        ]
+      );
+      assert.ok(items.filter(item => item.comment).every(item => item.picked));
+      assert.ok(items.filter(item => !item.comment).every(item => item.kind !== undefined));
+    });
+
+    test('should keep submitted comments in the history and restore them', async () => {
+      // Arrange: Two comments on the diff, one of which is submitted
+      const fileDiff: FileDiff = {
+        filePath: 'src/app.js',
+        status: 'modified',
+        oldContent: '',
+        newContent: 'test content\ntest content',
+        hunks: [],
+      };
+      const history = new SubmissionHistory(mockContext);
+      commentStorage.addComment(createTestComment('sent-1', 'src/app.js', 1, 1, 'Rename this'));
+      commentStorage.addComment(createTestComment('kept-1', 'src/app.js', 2, 2, 'Add a test'));
+      const [sent] = commentStorage.getValidCommentsForDiff([fileDiff]);
+
+      // Act: Submit it
+      const submission = recordSubmission(commentStorage, history, {
+        baseBranch: 'main',
+        currentBranch: 'feature',
+        comparison: 'feature...main',
+        mode: REVIEW_MODES.BRANCH_COMPARE,
+        comments: [sent],
+        prompt: 'Review prompt',
+      });
+
+      // Assert: The comment leaves the review but is kept, and the history has what was sent
+      const visible = commentStorage.getValidCommentsForDiff([fileDiff]);
+      assert.deepStrictEqual(
+        visible.map(comment => comment.id),
+        ['kept-1']
+      );
+      const stored = commentStorage.getAllComments().find(comment => comment.id === 'sent-1')!;
+      assert.strictEqual(stored.submitted!.submissionId, submission.id);
+      const [recorded] = history.getSubmissions();
+      assert.strictEqual(recorded.prompt, 'Review prompt');
+      assert.strictEqual(recorded.comparison, 'feature...main');
+      assert.deepStrictEqual(
+        recorded.comments.map(comment => [comment.id, comment.text]),
+        [['sent-1', 'Rename this']]
+      );
+      assert.strictEqual((recorded.comments[0] as any).validationInfo, undefined);
+
+      // Act: Delete the submitted comment, then restore the submission
+      commentStorage.deleteComment('sent-1');
+      commentStorage.restoreComments(recorded.comments);
+
+      // Assert: It is pending in the review again
+      const restored = commentStorage.getValidCommentsForDiff([fileDiff]);
+      assert.deepStrictEqual(restored.map(comment => comment.id).sort(), ['kept-1', 'sent-1']);
+      assert.ok(restored.every(comment => !comment.submitted));
+    });
+
+    test('should delete the comments of submissions dropped from the history', async () => {
+      // Arrange: One more submission than the history keeps, one comment each
+      const history = new SubmissionHistory(mockContext);
+      const submit = (id: string) => {
+        const comment = createTestComment(id, 'src/app.js', 1, 1, `Comment ${id}`);
+        commentStorage.addComment(comment);
+        return recordSubmission(commentStorage, history, {
+          baseBranch: 'main',
+          currentBranch: 'feature',
+          comparison: 'feature...main',
+          mode: REVIEW_MODES.BRANCH_COMPARE,
+          comments: [comment],
+          prompt: `Prompt ${id}`,
+        });
+      };
+
+      // Act: Submit past the limit
+      const first = submit('oldest');
+      for (let i = 1; i <= SUBMISSION_HISTORY_LIMIT; i++) {
+        submit(`sent-${i}`);
+      }
+
+      // Assert: The oldest submission and its comment are gone, the rest are kept
+      const submissions = history.getSubmissions();
+      assert.strictEqual(submissions.length, SUBMISSION_HISTORY_LIMIT);
+      assert.ok(submissions.every(submission => submission.id !== first.id));
+      const stored = commentStorage.getAllComments();
+      assert.strictEqual(stored.length, SUBMISSION_HISTORY_LIMIT);
+      assert.ok(stored.every(comment => comment.id !== 'oldest' && comment.submitted));
+    });
   });
 
   suite('Debug Commands Workflow', () => {
@@ -456,6 +693,372 @@ suite('Extension Commands Integration Tests', () => {
     });
   });
 
+  suite('Per-Repository Comment Sets', () => {
+    test('should keep each repository its own comments and migrate earlier ones', async () => {
+      // Arrange: Two checkouts that both have src/app.js and README.md, and comments saved before
+      // storage was per repository
+      const fs = require('fs');
+      const path = require('path');
+      const os = require('os');
+      const repoA = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-a-'));
+      const repoB = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-b-'));
+      [repoA, repoB].forEach(root => {
+        fs.mkdirSync(path.join(root, 'src'));
+        fs.writeFileSync(path.join(root, 'README.md'), '# Project\n');
+      });
+      fs.writeFileSync(path.join(repoA, 'src/app.js'), 'const a = 1;\ntest content\n');
+      fs.writeFileSync(path.join(repoB, 'src/app.js'), 'const b = 2;\n');
+      fs.writeFileSync(path.join(repoA, 'only-in-a.js'), '');
+      commentStorage.addComment(createTestComment('old-1', 'src/app.js', 2, 2, 'Shared path'));
+      commentStorage.addComment(createTestComment('old-2', 'lib/gone.js', 1, 1, 'Elsewhere'));
+      commentStorage.addComment(createTestComment('old-3', 'README.md', 1, 1, 'Common file'));
+      commentStorage.addComment({
+        ...createTestComment('old-4', '', 0, 0, 'Overall'),
+        scope: 'review',
+      });
+
+      try {
+        // Act: Open repository A, which claims the comments whose lines it has
+        await commentStorage.useRepository(repoA, 'git@example.com:team/a.git', 'main');
+        commentStorage.addComment(createTestComment('a-1', 'only-in-a.js', 2, 2, 'From A'));
+
+        // Assert: A has its comments; the others, including those on files every repository
+        // has or on no file at all, stay unassigned
+        assert.deepStrictEqual(
+          commentStorage.getAllComments().map(comment => comment.id),
+          ['old-1', 'a-1']
+        );
+
+        // Act: Open repository B, which has the same relative path
+        await commentStorage.useRepository(repoB, 'git@example.com:team/b.git', 'main');
+
+        // Assert: Nothing bleeds over from A
+        assert.deepStrictEqual(commentStorage.getAllComments(), []);
+        commentStorage.clearAllComments();
+        const sets = commentStorage.getCommentSets();
+        assert.deepStrictEqual(
+          sets.map(set => [set.root, set.count, set.active]),
+          [
+            [repoA, 2, false],
+            [repoB, 0, true],
+            ['', 3, false],
+          ]
+        );
+
+        // Act: Switch back to A's set, then purge the unassigned comments
+        assert.strictEqual(commentStorage.canSwitchCommentSets(), true);
+        commentStorage.switchCommentSet(sets[0].key);
+        commentStorage.purgeCommentSet(sets[2].key);
+
+        // Assert: A's comments are shown again, and only the two repositories remain
+        assert.strictEqual(commentStorage.getAllComments().length, 2);
+        assert.deepStrictEqual(
+          commentStorage.getCommentSets().map(set => set.root),
+          [repoA, repoB]
+        );
+      } finally {
+        fs.rmSync(repoA, { recursive: true, force: true });
+        fs.rmSync(repoB, { recursive: true, force: true });
+      }
+    });
+  });
+
+  suite('Repository File Storage', () => {
+    test('should write comments to the branch file and merge edits made outside', async () => {
+      // Arrange: File storage for a branch whose name has a slash
+      const fs = require('fs');
+      const path = require('path');
+      const os = require('os');
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-file-'));
+      const persistence = new RepoFileCommentPersistence(mockContext, root, 'feature/login');
+      const filePath = path.join(root, '.branch-review', 'feature', 'login.json');
+      const readFile = () => JSON.parse(fs.readFileSync(filePath, 'utf8')).comments;
+
+      try {
+        // Act: Add two comments through the extension
+        persistence.addComment(createTestComment('ours-1', 'src/app.js', 1, 1, 'Rename this'));
+        persistence.addComment(createTestComment('ours-2', 'src/app.js', 3, 3, 'Add a test'));
+
+        // Assert: They are in the branch's file
+        assert.deepStrictEqual(
+          readFile().map((comment: Comment) => comment.id),
+          ['ours-1', 'ours-2']
+        );
+
+        // Act: Someone else edits one comment and appends another; we reply to the other one
+        const external = readFile();
+        external[1].text = 'Add a test for the empty case';
+        external.push(createTestComment('theirs-1', 'src/utils.js', 5, 5, 'Off by one'));
+        fs.writeFileSync(filePath, JSON.stringify({ version: 1, comments: external }));
+        persistence.addReply('ours-1', { id: 'reply-1', text: 'Done', timestamp: 'now' });
+
+        // Assert: The file keeps both their edits and our reply
+        const merged: Comment[] = readFile();
+        assert.deepStrictEqual(
+          merged.map(comment => [comment.id, comment.text, (comment.replies || []).length]),
+          [
+            ['ours-1', 'Rename this', 1],
+            ['ours-2', 'Add a test for the empty case', 0],
+            ['theirs-1', 'Off by one', 0],
+          ]
+        );
+        assert.strictEqual(persistence.getAllComments().length, 3);
+      } finally {
+        persistence.dispose();
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+
+    test('should refuse to overwrite a branch file it cannot read', async () => {
+      // Arrange: A branch file left with merge conflict markers
+      const { root, writeFile } = createTempGitRepo();
+      const persistence = new RepoFileCommentPersistence(mockContext, root, 'main');
+      const conflicted = '<<<<<<< HEAD\n{"version":1,"comments":[]}\n=======\n>>>>>>> theirs\n';
+      writeFile('.branch-review/main.json', conflicted);
+      const warnings: string[] = [];
+      const showWarningMessage = vscode.window.showWarningMessage;
+      (vscode.window as any).showWarningMessage = (message: string) => {
+        warnings.push(message);
+        return Promise.resolve();
+      };
+
+      try {
+        // Act: Add a comment
+        persistence.addComment(createTestComment('ours-1', 'src/app.js', 1, 1, 'Rename this'));
+
+        // Assert: The file is left for the reviewer to fix, and they are told why
+        const text = fs.readFileSync(path.join(root, '.branch-review', 'main.json'), 'utf8');
+        assert.strictEqual(text, conflicted);
+        assert.strictEqual(warnings.length, 1);
+        assert.ok(warnings[0].includes('.branch-review/main.json could not be read'));
+      } finally {
+        (vscode.window as any).showWarningMessage = showWarningMessage;
+        persistence.dispose();
+      }
+    });
+
+    test('should not count the comment files as changes to review', async () => {
+      // Arrange: A clean repository, commented on through the branch file
+      const { root, git, writeFile } = createTempGitRepo();
+      writeFile('src/app.js', 'const a = 1;\n');
+      git('add .');
+      git('commit -q -m initial');
+      const persistence = new RepoFileCommentPersistence(mockContext, root, 'main');
+
+      try {
+        persistence.addComment(createTestComment('ours-1', 'src/app.js', 1, 1, 'Rename this'));
+
+        // Act: Check for working changes as opening the panel does
+        const realGitService = new GitService();
+        const hasChanges = await realGitService.hasUncommittedChanges(root);
+        const workingDiff = await realGitService.getDiffWithWorkingDirectory(root);
+
+        // Assert: The comment file is neither a change nor a file to review
+        assert.ok(fs.existsSync(path.join(root, '.branch-review', 'main.json')));
+        assert.strictEqual(hasChanges, false);
+        assert.deepStrictEqual(workingDiff, []);
+      } finally {
+        persistence.dispose();
+      }
+    });
+
+    test('should write to the checked out branch file after a checkout', async () => {
+      // Arrange: Comments kept in the repository file, starting on main
+      const fs = require('fs');
+      const path = require('path');
+      const os = require('os');
+      const root = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-file-'));
+      const readIds = (branch: string) =>
+        JSON.parse(
+          fs.readFileSync(path.join(root, '.branch-review', `${branch}.json`), 'utf8')
+        ).comments.map((comment: Comment) => comment.id);
+      const getConfiguration = vscode.workspace.getConfiguration;
+      (vscode.workspace as any).getConfiguration = () => ({
+        get: () => STORAGE_BACKENDS.REPO_FILE,
+      });
+
+      try {
+        await commentStorage.useRepository(root, '', 'main');
+        commentStorage.addComment(createTestComment('on-main', 'src/app.js', 1, 1, 'Rename this'));
+
+        // Act: Check out another branch and comment there
+        commentStorage.useBranch('feature');
+        commentStorage.addComment(
+          createTestComment('on-feature', 'src/app.js', 2, 2, 'Add a test')
+        );
+
+        // Assert: Each comment is in its own branch's file, which has no comment sets to switch
+        assert.deepStrictEqual(readIds('main'), ['on-main']);
+        assert.deepStrictEqual(readIds('feature'), ['on-feature']);
+        assert.deepStrictEqual(
+          commentStorage.getAllComments().map(comment => comment.id),
+          ['on-feature']
+        );
+        assert.strictEqual(commentStorage.canSwitchCommentSets(), false);
+      } finally {
+        (vscode.workspace as any).getConfiguration = getConfiguration;
+        fs.rmSync(root, { recursive: true, force: true });
+      }
+    });
+  });
+
+  suite('Git Notes Storage', () => {
+    test('should keep comments in notes that follow new commits and merge on fetch', async () => {
+      // Arrange: A shared remote and two clones of it
+      const { execSync } = require('child_process');
+      const fs = require('fs');
+      const path = require('path');
+      const os = require('os');
+      const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-notes-'));
+      const git = (cwd: string, command: string) =>
+        execSync(`git ${command}`, { cwd, stdio: 'pipe' }).toString().trim();
+      const clone = (name: string) => {
+        git(tempRoot, `clone -q ${remote} ${name}`);
+        git(path.join(tempRoot, name), 'config user.name Test');
+        git(path.join(tempRoot, name), 'config user.email test@example.com');
+      };
+      const remote = path.join(tempRoot, 'remote.git');
+      const alice = path.join(tempRoot, 'alice');
+      const bob = path.join(tempRoot, 'bob');
+      git(tempRoot, `init -q --bare ${remote}`);
+      clone('alice');
+      git(alice, 'commit -q --allow-empty -m first');
+      git(alice, 'push -q origin HEAD');
+      clone('bob');
+
+      try {
+        // Act: Alice comments, commits again, and pushes her notes
+        const aliceNotes = new GitNotesCommentPersistence(mockContext, new GitService(), alice);
+        await aliceNotes.load();
+        aliceNotes.addComment(createTestComment('alice-1', 'src/app.js', 1, 1, 'From Alice'));
+        await aliceNotes.flush();
+        git(alice, 'commit -q --allow-empty -m second');
+        const reloaded = new GitNotesCommentPersistence(mockContext, new GitService(), alice);
+        await reloaded.load();
+
+        // Assert: The note is on the reviewed commit and still loads from the newer head
+        assert.ok(git(alice, 'notes --ref=branch-review show HEAD~1').includes('From Alice'));
+        assert.deepStrictEqual(
+          reloaded.getAllComments().map(comment => comment.id),
+          ['alice-1']
+        );
+        await new GitService().pushNotes(alice, 'refs/notes/branch-review');
+
+        // Act: Bob comments on the same commit, then fetches Alice's notes
+        const bobNotes = new GitNotesCommentPersistence(mockContext, new GitService(), bob);
+        await bobNotes.load();
+        bobNotes.addComment(createTestComment('bob-1', 'src/app.js', 2, 2, 'From Bob'));
+        await bobNotes.flush();
+        const changed = await new GitService().fetchNotes(
+          bob,
+          'refs/notes/branch-review',
+          (ours, theirs) =>
+            serializeComments(
+              mergeComments([], parseSerializedComments(ours), parseSerializedComments(theirs))
+            )
+        );
+        await bobNotes.load();
+
+        // Assert: Bob has both comments, neither side's note lost
+        assert.strictEqual(changed, 1);
+        assert.deepStrictEqual(
+          bobNotes.getAllComments().map(comment => comment.id),
+          ['bob-1', 'alice-1']
+        );
+      } finally {
+        fs.rmSync(tempRoot, { recursive: true, force: true });
+      }
+    });
+
+    test('should apply comments deleted on the remote when fetching notes', async () => {
+      // Arrange: Bob has fetched Alice's comment and added his own on the same commit
+      const { execSync } = require('child_process');
+      const os = require('os');
+      const tempRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-notes-'));
+      const git = (cwd: string, command: string) =>
+        execSync(`git ${command}`, { cwd, stdio: 'pipe' }).toString().trim();
+      const clone = (name: string) => {
+        git(tempRoot, `clone -q ${remote} ${name}`);
+        git(path.join(tempRoot, name), 'config user.name Test');
+        git(path.join(tempRoot, name), 'config user.email test@example.com');
+      };
+      const remote = path.join(tempRoot, 'remote.git');
+      const alice = path.join(tempRoot, 'alice');
+      const bob = path.join(tempRoot, 'bob');
+      git(tempRoot, `init -q --bare ${remote}`);
+      clone('alice');
+      git(alice, 'commit -q --allow-empty -m first');
+      git(alice, 'push -q origin HEAD');
+      clone('bob');
+      const mergeNotes = (ours: string, theirs: string, base: string | undefined) =>
+        serializeComments(
+          mergeComments(
+            base === undefined ? [] : parseSerializedComments(base),
+            parseSerializedComments(ours),
+            parseSerializedComments(theirs)
+          )
+        );
+
+      try {
+        const aliceNotes = new GitNotesCommentPersistence(mockContext, new GitService(), alice);
+        await aliceNotes.load();
+        aliceNotes.addComment(createTestComment('alice-1', 'src/app.js', 1, 1, 'From Alice'));
+        await aliceNotes.flush();
+        await new GitService().pushNotes(alice, 'refs/notes/branch-review');
+        await new GitService().fetchNotes(bob, 'refs/notes/branch-review', mergeNotes);
+        const bobNotes = new GitNotesCommentPersistence(mockContext, new GitService(), bob);
+        await bobNotes.load();
+        bobNotes.addComment(createTestComment('bob-1', 'src/app.js', 2, 2, 'From Bob'));
+        await bobNotes.flush();
+
+        // Act: Alice deletes her comment and pushes, then Bob fetches again
+        aliceNotes.deleteComment('alice-1');
+        await aliceNotes.flush();
+        await new GitService().pushNotes(alice, 'refs/notes/branch-review');
+        const changed = await new GitService().fetchNotes(
+          bob,
+          'refs/notes/branch-review',
+          mergeNotes
+        );
+        await bobNotes.load();
+
+        // Assert: Alice's comment is gone from Bob's notes, and his own is kept
+        assert.strictEqual(changed, 1);
+        assert.deepStrictEqual(
+          bobNotes.getAllComments().map(comment => comment.id),
+          ['bob-1']
+        );
+      } finally {
+        fs.rmSync(tempRoot, { recursive: true, force: true });
+      }
+    });
+
+    test('should tell the reviewer when notes cannot be written', async () => {
+      // Arrange: A repository with no commit to attach notes to
+      const { root } = createTempGitRepo();
+      const persistence = new GitNotesCommentPersistence(mockContext, new GitService(), root);
+      await persistence.load();
+      const errors: string[] = [];
+      const showErrorMessage = vscode.window.showErrorMessage;
+      (vscode.window as any).showErrorMessage = (message: string) => {
+        errors.push(message);
+        return Promise.resolve();
+      };
+
+      try {
+        // Act: Add a comment
+        persistence.addComment(createTestComment('note-1', 'src/app.js', 1, 1, 'Rename this'));
+        await persistence.flush();
+
+        // Assert: The failure is shown rather than only logged
+        assert.strictEqual(errors.length, 1);
+        assert.ok(errors[0].startsWith('Failed to write review notes:'));
+      } finally {
+        (vscode.window as any).showErrorMessage = showErrorMessage;
+      }
+    });
+  });
+
   suite('Error Handling in Commands', () => {
     test('should handle git service errors gracefully', async () => {
       // Arrange: Create scenario that might cause git errors
@@ -14,6 +14,8 @@ import {
   MockExtensionContext,
   MockWebviewPanel,
   createTestComment,
+  createTempGitRepo,
+  cleanupTempGitRepos,
 } from './testUtils';
 
 /**
@@ -39,6 +41,7 @@ suite('Branch Review Integration Tests', () => {
 
   teardown(() => {
     testRepo.cleanup();
+    cleanupTempGitRepos();
   });
 
   suite('Branch Review Workflow', () => {
@@ -366,6 +369,89 @@ suite('Branch Review Integration Tests', () => {
       assert.strictEqual(allComments[0].validationInfo.isValid, false);
       assert.strictEqual(allComments[0].validationInfo.status, 'outdated');
     });
+
+    test('should follow comments when their file is renamed', async () => {
+      // Arrange: Comment on a file before it is moved
+      testRepo.createBranch('feature/rename-test');
+      testRepo.switchToBranch('feature/rename-test');
+      testRepo.modifyFile(
+        'src/app.js',
+        'function main() {\n  console.log("moved soon");\n  return true;\n}'
+      );
+
+      const diff = await gitService.getDiffWithMain(testRepo.getWorkspaceRoot());
+      const comment: Comment = {
+        id: 'rename-test',
+        filePath: 'src/app.js',
+        startLine: 2,
+        endLine: 2,
+        text: 'Comment on a file that will be renamed',
+        codeSnippet: 'console.log("moved soon");',
+        timestamp: new Date().toISOString(),
+        anchor: commentStorage.createCommentAnchor('main', 'feature/rename-test', diff[0], 2, 2),
+        status: 'current',
+      };
+
+      commentStorage.addComment(comment);
+
+      // Act: Git reports the file as renamed
+      const renamedDiff: FileDiff[] = [
+        {
+          ...diff[0],
+          filePath: 'src/main.js',
+          oldFilePath: 'src/app.js',
+          status: 'renamed',
+        },
+      ];
+
+      // Assert: Comment stays valid and is reported under the new path
+      const validComments = commentStorage.getValidCommentsForDiff(renamedDiff);
+      assert.strictEqual(validComments.length, 1);
+      assert.strictEqual(validComments[0].filePath, 'src/main.js');
+      assert.strictEqual(validComments[0].startLine, 2);
+    });
+
+    test('should detect a moved and edited file and follow its comments', async () => {
+      // Arrange: A branch that changes a line of src/app.js, commented on in the review
+      const { root: repoRoot, git, writeFile } = createTempGitRepo();
+      const lines = Array.from({ length: 10 }, (_, i) => `const value${i} = ${i};`);
+      const writeLines = (filePath: string, content: string[]) =>
+        writeFile(filePath, content.join('\n') + '\n');
+
+      writeLines('src/app.js', lines);
+      git('add .');
+      git('commit -q -m initial');
+      git('checkout -q -b feature/move');
+      const changed = lines.map((line, i) => (i === 2 ? 'const value2 = compute();' : line));
+      writeLines('src/app.js', changed);
+      git('commit -q -am change');
+
+      const realGitService = new GitService();
+      const diff = await realGitService.getDiffWithBranch(repoRoot, 'main');
+      commentStorage.addComment({
+        ...createTestComment('moved-file', 'src/app.js', 3, 3, 'Why compute here?'),
+        anchor: commentStorage.createCommentAnchor('main', 'feature/move', diff[0], 3, 3),
+      });
+
+      // Act: Move the file with git mv and edit it, then load the diff again
+      git('mv src/app.js src/main.js');
+      writeLines('src/main.js', ['// Entry point', ...changed]);
+      git('commit -q -am move');
+      const movedDiff = await realGitService.getDiffWithBranch(repoRoot, 'main');
+
+      // Assert: Git's rename shows as one renamed file rather than a deletion and an addition
+      assert.deepStrictEqual(
+        movedDiff.map(file => [file.oldFilePath, file.filePath, file.status]),
+        [['src/app.js', 'src/main.js', 'renamed']]
+      );
+
+      // Assert: The comment follows the line to the new path
+      const validComments = commentStorage.getValidCommentsForDiff(movedDiff);
+      assert.deepStrictEqual(
+        validComments.map(comment => [comment.id, comment.filePath, comment.startLine]),
+        [['moved-file', 'src/main.js', 4]]
+      );
+    });
   });
 
   suite('File Operations Workflow', () => {
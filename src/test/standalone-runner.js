@@ -26,6 +26,7 @@ const Module = require('module');
 const vscodeAPIs = {
   ExtensionMode: { Production: 1, Development: 2, Test: 3 },
   ViewColumn: { Active: -1, Beside: -2, One: 1, Two: 2, Three: 3 },
+  QuickPickItemKind: { Separator: -1, Default: 0 },
 
   Uri: class Uri {
     constructor(scheme = 'file', authority = '', path = '', query = '', fragment = '') {
@@ -97,6 +98,13 @@ const vscodeAPIs = {
       get: (key, defaultValue) => defaultValue,
       has: () => false,
       update: () => Promise.resolve()
+    }),
+    onDidChangeConfiguration: () => ({ dispose: () => {} }),
+    createFileSystemWatcher: () => ({
+      onDidChange: new vscodeAPIs.EventEmitter().event,
+      onDidCreate: new vscodeAPIs.EventEmitter().event,
+      onDidDelete: new vscodeAPIs.EventEmitter().event,
+      dispose: () => {}
     })
   }
 };
@@ -2,7 +2,9 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
-import { GitService, FileDiff } from '../services/gitService';
+import { execSync } from 'child_process';
+import { GitService, FileDiff, CommitInfo } from '../services/gitService';
+import { WORKING_CHANGES_SCOPES, WorkingChangesScope } from '../constants';
 
 /**
  * Test utilities for Branch Review integration tests
@@ -62,6 +64,11 @@ export class TestGitRepository {
     }
   }
 
+  editWorkingFile(filePath: string, content: string) {
+    // Change the working directory only, leaving the change uncommitted
+    this.files.set(filePath, content);
+  }
+
   addFile(filePath: string, content: string) {
     this.modifyFile(filePath, content);
   }
@@ -202,6 +209,7 @@ export class TestGitRepository {
 export class MockGitService extends GitService {
   private testRepo: TestGitRepository;
   private mockHasUncommittedChanges: boolean = false;
+  private stagedFiles: Set<string> = new Set();
 
   constructor(testRepo: TestGitRepository) {
     super();
@@ -212,6 +220,10 @@ export class MockGitService extends GitService {
     this.mockHasUncommittedChanges = hasChanges;
   }
 
+  stageFile(filePath: string): void {
+    this.stagedFiles.add(filePath);
+  }
+
   async isGitRepository(workspaceRoot: string): Promise<boolean> {
     return true;
   }
@@ -232,17 +244,71 @@ export class MockGitService extends GitService {
     return this.testRepo.getDiffBetweenBranches(baseBranch, this.testRepo.getCurrentBranch());
   }
 
+  async getMergeBase(
+    workspaceRoot: string,
+    baseBranch: string,
+    currentBranch: string
+  ): Promise<string> {
+    // Branches here have no history, so a branch forks from its base's current state
+    return baseBranch;
+  }
+
   async getDiffWithMain(workspaceRoot: string): Promise<FileDiff[]> {
     return this.testRepo.getDiffBetweenBranches('main', this.testRepo.getCurrentBranch());
   }
 
+  async getDiffForCommitRange(workspaceRoot: string, commitRange: string): Promise<FileDiff[]> {
+    // Branches stand in for commits: "a..b" compares branch a with branch b,
+    // and a single "commit" is the state of that branch compared with main
+    const [from, to] = commitRange.split('..');
+    if (to === undefined) {
+      return this.testRepo.getDiffBetweenBranches('main', from);
+    }
+    return this.testRepo.getDiffBetweenBranches(from, to || this.testRepo.getCurrentBranch());
+  }
+
+  async getBranchCommits(workspaceRoot: string, baseBranch: string): Promise<CommitInfo[]> {
+    return this.testRepo
+      .getAllBranches()
+      .filter(branch => branch !== baseBranch)
+      .map(branch => ({
+        hash: branch,
+        shortHash: branch,
+        subject: `Tip of ${branch}`,
+        author: 'Test Author',
+        date: '2024-01-01',
+      }));
+  }
+
+  async getRecentCommits(workspaceRoot: string): Promise<CommitInfo[]> {
+    return this.testRepo.getAllBranches().map((branch, index) => ({
+      hash: `${index}`.padStart(40, '0'),
+      shortHash: `${index}`.padStart(7, '0'),
+      subject: `Tip of ${branch}`,
+      author: 'Test Author',
+      date: '2024-01-01',
+    }));
+  }
+
   async hasUncommittedChanges(workspaceRoot: string): Promise<boolean> {
     return this.mockHasUncommittedChanges;
   }
 
-  async getDiffWithWorkingDirectory(workspaceRoot: string): Promise<FileDiff[]> {
-    // Simulate working directory changes by comparing current files with the committed state
-    return this.testRepo.getWorkingDirectoryDiff();
+  async getDiffWithWorkingDirectory(
+    workspaceRoot: string,
+    scope: WorkingChangesScope = WORKING_CHANGES_SCOPES.ALL
+  ): Promise<FileDiff[]> {
+    // Simulate working directory changes by comparing current files with the committed state,
+    // where a file is either fully staged or fully unstaged
+    return this.testRepo
+      .getWorkingDirectoryDiff()
+      .map(fileDiff => ({
+        ...fileDiff,
+        stageState: this.stagedFiles.has(fileDiff.filePath)
+          ? ('staged' as const)
+          : ('unstaged' as const),
+      }))
+      .filter(fileDiff => scope === WORKING_CHANGES_SCOPES.ALL || fileDiff.stageState === scope);
   }
 
   async getWorkingChanges(workspaceRoot: string): Promise<FileDiff[]> {
@@ -410,6 +476,49 @@ export function createTestFileDiff(
   };
 }
 
+export interface TempGitRepo {
+  root: string;
+  git(command: string): string;
+  writeFile(filePath: string, content: string | Buffer): void;
+}
+
+const tempGitRepos: string[] = [];
+
+/**
+ * Helper function to create a real git repository on a `main` branch, for tests
+ * that exercise GitService against git itself. Remove it with cleanupTempGitRepos.
+ */
+export function createTempGitRepo(): TempGitRepo {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'branch-review-git-'));
+  tempGitRepos.push(root);
+
+  const repo: TempGitRepo = {
+    root,
+    git: (command: string) =>
+      execSync(`git -c user.name=Test -c user.email=test@example.com ${command}`, {
+        cwd: root,
+        stdio: 'pipe',
+      })
+        .toString()
+        .trim(),
+    writeFile: (filePath: string, content: string | Buffer) => {
+      fs.mkdirSync(path.dirname(path.join(root, filePath)), { recursive: true });
+      fs.writeFileSync(path.join(root, filePath), content);
+    },
+  };
+  repo.git('init -q -b main');
+  return repo;
+}
+
+/**
+ * Helper function to remove the repositories made by createTempGitRepo
+ */
+export function cleanupTempGitRepos(): void {
+  for (const root of tempGitRepos.splice(0)) {
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
+
 /**
  * Helper function to wait for async operations in tests
  */
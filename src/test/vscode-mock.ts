@@ -27,6 +27,11 @@ export enum ViewColumn {
   Nine = 9,
 }
 
+export enum QuickPickItemKind {
+  Separator = -1,
+  Default = 0,
+}
+
 // Mock URI class
 export class Uri {
   scheme: string;
@@ -214,6 +219,13 @@ export const workspace = {
     inspect: (key: string) => undefined,
     update: (key: string, value: any) => Promise.resolve(),
   }),
+  onDidChangeConfiguration: (listener: (event: any) => any) => ({ dispose: () => {} }),
+  createFileSystemWatcher: (globPattern: string) => ({
+    onDidChange: new EventEmitter<any>().event,
+    onDidCreate: new EventEmitter<any>().event,
+    onDidDelete: new EventEmitter<any>().event,
+    dispose: () => {},
+  }),
 };
 
 // Export everything that our code might import from 'vscode'
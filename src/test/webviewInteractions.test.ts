@@ -1,10 +1,13 @@
 /// <reference types="mocha" />
 import * as assert from 'assert';
+import * as vscode from 'vscode';
 import { GitService, FileDiff } from '../services/gitService';
 import { CommentStorage, Comment } from '../services/commentStorage';
 import { ReviewPanel } from '../ui/reviewPanel';
 import { WebviewRenderer } from '../ui/webviewRenderer';
-import { WEBVIEW_COMMANDS, REVIEW_MODES } from '../constants';
+import { generateReviewSummary } from '../commands/submitComments';
+import { findCommentLinesInText } from '../services/commentUtils';
+import { WEBVIEW_COMMANDS, REVIEW_MODES, WORKING_CHANGES_SCOPES } from '../constants';
 
 // Import test utilities
 import {
@@ -12,6 +15,7 @@ import {
   MockGitService,
   MockExtensionContext,
   MockWebviewPanel,
+  MockWebview,
   createTestComment,
   assertValidHTML,
 } from './testUtils';
@@ -158,6 +162,367 @@ suite('Webview Interactions Integration Tests', () => {
       assert.strictEqual(allComments[0].text, 'Comment to keep');
     });
 
+    test('should handle reply messages as a thread on the comment', async () => {
+      // Arrange: A comment under review
+      commentStorage.addComment(
+        createTestComment('webview-thread-1', 'src/app.js', 1, 1, 'Please handle null input')
+      );
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+
+      // Act: Reply twice, then delete the first reply
+      const handleMessage = (message: any) =>
+        (reviewPanel as any).messageHandler.handleMessage(message);
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_REPLY,
+        data: { commentId: 'webview-thread-1', text: 'Done' },
+      });
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_REPLY,
+        data: { commentId: 'webview-thread-1', text: 'Still not fixed' },
+      });
+      const [firstReply] = commentStorage.getAllComments()[0].replies!;
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.DELETE_REPLY,
+        data: { commentId: 'webview-thread-1', replyId: firstReply.id },
+      });
+
+      // Assert: The thread keeps the original note and the remaining reply
+      const [comment] = commentStorage.getAllComments();
+      assert.strictEqual(comment.text, 'Please handle null input');
+      assert.deepStrictEqual(
+        comment.replies!.map(reply => reply.text),
+        ['Still not fixed']
+      );
+      const updates = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .filter(message => message.command === WEBVIEW_COMMANDS.COMMENTS_UPDATED);
+      assert.strictEqual(updates.length, 3);
+    });
+
+    test('should resolve comments with who and when, and reopen them', async () => {
+      // Arrange: A repository with a configured git user, and a comment in it
+      const { execSync } = require('child_process');
+      const repoRoot = testRepo.getWorkspaceRoot();
+      execSync('git init -q && git config user.name "Ada Reviewer"', { cwd: repoRoot });
+      commentStorage.addComment(
+        createTestComment('webview-resolve-1', 'src/app.js', 1, 1, 'Handle the error case')
+      );
+      reviewPanel = new ReviewPanel(mockContext, new GitService(), commentStorage, repoRoot);
+
+      // Act: Resolve the comment
+      const before = Date.now();
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.RESOLVE_COMMENT,
+        data: { commentId: 'webview-resolve-1' },
+      });
+
+      // Assert: The comment is kept, marked with who resolved it and when
+      const [resolved] = commentStorage.getAllComments();
+      assert.strictEqual(resolved.resolved!.by, 'Ada Reviewer');
+      assert.ok(Date.parse(resolved.resolved!.at) >= before - 1000);
+
+      // Act: Reopen it
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.UNRESOLVE_COMMENT,
+        data: { commentId: 'webview-resolve-1' },
+      });
+
+      // Assert: The comment is open again
+      const [reopened] = commentStorage.getAllComments();
+      assert.strictEqual(reopened.resolved, undefined);
+      assert.strictEqual(reopened.text, 'Handle the error case');
+    });
+
+    test('should follow edited lines approximately until the reviewer confirms them', async () => {
+      // Arrange: A comment on a line whose variable is then renamed, below a new first line
+      const lines = [
+        'function total(items) {',
+        '  let sum = 0;',
+        '  for (const item of items) {',
+        '    sum += item.price;',
+        '  }',
+        '  return sum;',
+        '}',
+      ];
+      const fileDiff = (content: string[]): FileDiff => ({
+        filePath: 'src/cart.js',
+        status: 'modified',
+        oldContent: '',
+        newContent: content.join('\n'),
+        hunks: [],
+      });
+      const anchor = commentStorage.createCommentAnchor('main', 'feature', fileDiff(lines), 4, 4);
+      commentStorage.addComment(
+        createTestComment('webview-fuzzy-1', 'src/cart.js', 4, 4, 'Round the price', anchor)
+      );
+      const edited = fileDiff([
+        '// Totals',
+        ...lines.map(line => line.replace(/\bsum\b/g, 'total')),
+      ]);
+
+      // Act: Validate against the edited file
+      const [withStatus] = commentStorage.getAllCommentsWithStatus([edited]);
+
+      // Assert: The closest line is found, with a confidence low enough to ask for confirmation
+      assert.strictEqual(withStatus.validationInfo.status, 'moved');
+      assert.deepStrictEqual(withStatus.validationInfo.newPosition, { startLine: 5, endLine: 5 });
+      assert.ok(withStatus.validationInfo.confidence > 0.6);
+      assert.ok(withStatus.validationInfo.confidence < 0.85);
+      const [shown] = commentStorage.getValidCommentsForDiff([edited]);
+      assert.strictEqual(shown.approximate, true);
+
+      // Assert: Edits such as applying a suggestion only go to lines found unchanged
+      const editedText = edited.newContent;
+      assert.strictEqual(
+        findCommentLinesInText(commentStorage.getAllComments()[0], editedText),
+        undefined
+      );
+
+      // Act: Confirm the new position
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).currentDiff = [edited];
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CONFIRM_ANCHOR,
+        data: { commentId: 'webview-fuzzy-1' },
+      });
+
+      // Assert: The comment is anchored to the edited line and no longer approximate
+      const [confirmed] = commentStorage.getAllComments();
+      assert.strictEqual(confirmed.startLine, 5);
+      assert.strictEqual(confirmed.anchor.lineContent, '    total += item.price;');
+      const [revalidated] = commentStorage.getAllCommentsWithStatus([edited]);
+      assert.strictEqual(revalidated.validationInfo.status, 'current');
+      assert.strictEqual(revalidated.validationInfo.confidence, 1);
+      assert.strictEqual(
+        commentStorage.getValidCommentsForDiff([edited])[0].approximate,
+        undefined
+      );
+      assert.deepStrictEqual(findCommentLinesInText(confirmed, editedText), {
+        startLine: 5,
+        endLine: 5,
+      });
+    });
+
+    test('should list outdated comments and re-attach, convert or clean them up', async () => {
+      // Arrange: One comment still on its line and three whose lines are gone
+      const fileDiff: FileDiff = {
+        filePath: 'src/app.js',
+        status: 'modified',
+        oldContent: '',
+        newContent: 'const a = 1;\nconst b = 2;\nconst c = 3;',
+        hunks: [],
+      };
+      const anchorFor = (lineContent: string, line: number) => ({
+        baseBranch: 'main',
+        currentBranch: 'feature',
+        lineContent,
+        contextLines: { before: [], after: [] },
+        originalLineNumbers: { start: line, end: line },
+      });
+      commentStorage.addComment(
+        createTestComment('current', 'src/app.js', 1, 1, 'Name this', anchorFor('const a = 1;', 1))
+      );
+      ['gone-1', 'gone-2', 'gone-3'].forEach((id, i) =>
+        commentStorage.addComment(
+          createTestComment(id, 'src/app.js', 4 + i, 4 + i, `Note ${id}`, anchorFor('retry();', 4))
+        )
+      );
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).currentDiff = [fileDiff];
+      const handleMessage = (message: any) =>
+        (reviewPanel as any).messageHandler.handleMessage(message);
+
+      // Act: Re-attach one to the selected line and keep another as a file note
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.REATTACH_COMMENT,
+        data: {
+          commentId: 'gone-1',
+          filePath: 'src/app.js',
+          startLine: 3,
+          endLine: 3,
+          side: 'new',
+        },
+      });
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.CONVERT_TO_FILE_COMMENT,
+        data: { commentId: 'gone-2' },
+      });
+
+      // Assert: Both are shown again, and the webview lists the last one as outdated with why
+      const valid = commentStorage.getValidCommentsForDiff([fileDiff]);
+      assert.deepStrictEqual(
+        valid.map(comment => [comment.id, comment.scope, comment.startLine]),
+        [
+          ['current', undefined, 1],
+          ['gone-1', undefined, 3],
+          ['gone-2', 'file', 0],
+        ]
+      );
+      assert.strictEqual(valid[1].anchor.lineContent, 'const c = 3;');
+      const update = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .filter(message => message.command === WEBVIEW_COMMANDS.COMMENTS_UPDATED)
+        .pop();
+      assert.deepStrictEqual(
+        update.outdatedComments.map((comment: any) => [comment.id, comment.validationInfo.reason]),
+        [['gone-3', 'Lines have been modified or removed']]
+      );
+
+      // Act: Clean up the outdated comments, confirming the deletion
+      const showWarningMessage = vscode.window.showWarningMessage;
+      (vscode.window as any).showWarningMessage = () => Promise.resolve('Delete');
+      try {
+        await handleMessage({ command: WEBVIEW_COMMANDS.DELETE_OUTDATED_COMMENTS });
+      } finally {
+        (vscode.window as any).showWarningMessage = showWarningMessage;
+      }
+
+      // Assert: Only the outdated comment was deleted
+      assert.deepStrictEqual(
+        commentStorage.getAllComments().map(comment => comment.id),
+        ['current', 'gone-1', 'gone-2']
+      );
+    });
+
+    test('should keep comments on files outside a narrowed diff when deleting outdated ones', async () => {
+      // Arrange: A comment whose lines are gone, and one on a file the narrowed diff leaves out
+      const fileDiff: FileDiff = {
+        filePath: 'src/app.js',
+        status: 'modified',
+        oldContent: '',
+        newContent: 'const a = 1;',
+        hunks: [],
+      };
+      const anchorFor = (lineContent: string) => ({
+        baseBranch: 'main',
+        currentBranch: 'feature',
+        lineContent,
+        contextLines: { before: [], after: [] },
+        originalLineNumbers: { start: 2, end: 2 },
+      });
+      commentStorage.addComment(
+        createTestComment('gone', 'src/app.js', 2, 2, 'Retry here', anchorFor('retry();'))
+      );
+      commentStorage.addComment(
+        createTestComment('elsewhere', 'src/other.js', 2, 2, 'Log this', anchorFor('log();'))
+      );
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).currentDiff = [fileDiff];
+      const prompts: string[] = [];
+      let answer: string | undefined;
+      const showWarningMessage = vscode.window.showWarningMessage;
+      (vscode.window as any).showWarningMessage = (message: string, options: any) => {
+        prompts.push(`${message} (modal: ${options.modal})`);
+        return Promise.resolve(answer);
+      };
+
+      try {
+        // Act: Ask to delete the outdated comments, then cancel
+        await (reviewPanel as any).messageHandler.handleMessage({
+          command: WEBVIEW_COMMANDS.DELETE_OUTDATED_COMMENTS,
+        });
+
+        // Assert: The count was confirmed first, and nothing was deleted
+        assert.deepStrictEqual(prompts, [
+          'Delete 1 outdated comment? This cannot be undone. (modal: true)',
+        ]);
+        assert.strictEqual(commentStorage.getAllComments().length, 2);
+
+        // Act: Confirm the deletion
+        answer = 'Delete';
+        await (reviewPanel as any).messageHandler.handleMessage({
+          command: WEBVIEW_COMMANDS.DELETE_OUTDATED_COMMENTS,
+        });
+      } finally {
+        (vscode.window as any).showWarningMessage = showWarningMessage;
+      }
+
+      // Assert: The comment on the file outside the diff survives, listed apart from outdated ones
+      assert.deepStrictEqual(
+        commentStorage.getAllComments().map(comment => comment.id),
+        ['elsewhere']
+      );
+      const update = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .filter(message => message.command === WEBVIEW_COMMANDS.COMMENTS_UPDATED)
+        .pop();
+      assert.deepStrictEqual(update.outdatedComments, []);
+      assert.deepStrictEqual(
+        update.commentsOutsideDiff.map((comment: any) => comment.id),
+        ['elsewhere']
+      );
+    });
+
+    test('should keep file notes and one overall comment, listed before line issues', async () => {
+      // Arrange: A diff with one changed file
+      const fileDiff: FileDiff = {
+        filePath: 'src/app.js',
+        status: 'modified',
+        oldContent: 'const a = 1;',
+        newContent: 'const a = 2;',
+        hunks: [],
+      };
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, '/test');
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).currentDiff = [fileDiff];
+
+      // Act: Note the file, then write the overall comment twice
+      const handleMessage = (message: any) =>
+        (reviewPanel as any).messageHandler.handleMessage(message);
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: { scope: 'file', filePath: 'src/app.js', text: 'Split this module up' },
+      });
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: { scope: 'review', text: 'Looks close' },
+      });
+      await handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: { scope: 'review', text: 'Good direction, a few fixes needed' },
+      });
+
+      // Assert: Both survive validation, and the overall comment was replaced rather than added
+      const valid = commentStorage.getValidCommentsForDiff([fileDiff]);
+      assert.deepStrictEqual(
+        valid.map(comment => [comment.scope, comment.filePath, comment.text]),
+        [
+          ['file', 'src/app.js', 'Split this module up'],
+          ['review', '', 'Good direction, a few fixes needed'],
+        ]
+      );
+
+      // Assert: The prompt opens with the overall comment, then file notes, then line issues,
+      // each followed by its replies
+      const lineComment = createTestComment('line-1', 'src/app.js', 1, 1, 'Use a constant');
+      const withReply = valid.map(comment => ({
+        ...comment,
+        replies: [{ id: `${comment.scope}-reply`, text: `Re: ${comment.scope}`, timestamp: '' }],
+      }));
+      const summary = await generateReviewSummary([...withReply, lineComment]);
+      const headings = summary.split('\n').filter(line => /^#{2,4} /.test(line));
+      assert.deepStrictEqual(headings, [
+        '## Overall',
+        '## File Notes',
+        '### `src/app.js`',
+        '## Minor (1)',
+        '### `src/app.js`',
+        '#### Issue 1 (Lines 1)',
+      ]);
+      assert.ok(
+        summary.includes(
+          '## Overall\n\nGood direction, a few fixes needed\n\n**Follow-up 1:** Re: review\n'
+        )
+      );
+      assert.ok(
+        summary.includes('### `src/app.js`\n\nSplit this module up\n\n**Follow-up 1:** Re: file\n')
+      );
+    });
+
     test('should handle delete all comments message workflow', async () => {
       // Arrange: Add multiple comments
       const comment1 = createTestComment('webview-clear-1', 'src/app.js', 1, 1, 'Comment 1');
@@ -230,6 +595,150 @@ suite('Webview Interactions Integration Tests', () => {
       assert.ok(branchCompareMode === 'branch-compare' || branchCompareMode === 'working-changes');
     });
 
+    test('should handle working changes scope workflow', async () => {
+      // Arrange: One staged and one unstaged change
+      testRepo.createBranch('feature/staging');
+      testRepo.switchToBranch('feature/staging');
+      testRepo.editWorkingFile('src/app.js', 'function main() {\n  console.log("Staged");\n}');
+      testRepo.editWorkingFile('README.md', '# Test Project\n\nUnstaged edit.');
+      gitService.stageFile('src/app.js');
+
+      const workspaceRoot = testRepo.getWorkspaceRoot();
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, workspaceRoot);
+      const messageHandler = (reviewPanel as any).messageHandler;
+
+      // Act: Switch to staged changes only
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_WORKING_SCOPE,
+        data: { scope: WORKING_CHANGES_SCOPES.STAGED },
+      });
+
+      // Assert: Only the staged file is reviewed
+      assert.strictEqual(reviewPanel.getCurrentReviewMode(), REVIEW_MODES.WORKING_CHANGES);
+      assert.strictEqual(reviewPanel.getCurrentWorkingScope(), WORKING_CHANGES_SCOPES.STAGED);
+      const stagedDiff = (reviewPanel as any).currentDiff;
+      assert.deepStrictEqual(
+        stagedDiff.map((fileDiff: FileDiff) => fileDiff.filePath),
+        ['src/app.js']
+      );
+
+      // Switching back to all changes shows both files with their stage badges
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_WORKING_SCOPE,
+        data: { scope: WORKING_CHANGES_SCOPES.ALL },
+      });
+      const allDiff = (reviewPanel as any).currentDiff;
+      assert.strictEqual(allDiff.length, 2);
+
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/staging',
+        baseBranch: 'main',
+        diff: allDiff,
+        allBranches: ['main', 'feature/staging'],
+        diffStats: { added: 2, removed: 2 },
+        reviewMode: REVIEW_MODES.WORKING_CHANGES,
+        workingScope: WORKING_CHANGES_SCOPES.ALL,
+      });
+      assert.ok(html.includes('br-stage-badge-staged'));
+      assert.ok(html.includes('br-stage-badge-unstaged'));
+      assert.ok(html.includes('data-working-scope-selected-value="all"'));
+    });
+
+    test('should handle commit range change workflow', async () => {
+      // Arrange: Set up branch with changes
+      testRepo.createBranch('feature/range-test');
+      testRepo.switchToBranch('feature/range-test');
+      testRepo.modifyFile('src/app.js', 'function main() {\n  console.log("Range test");\n}');
+
+      const workspaceRoot = testRepo.getWorkspaceRoot();
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, workspaceRoot);
+      const messageHandler = (reviewPanel as any).messageHandler;
+
+      // Act: Pick a commit range in the webview
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_COMMIT_RANGE,
+        data: { commitRange: 'main..feature/range-test' },
+      });
+
+      // Assert: Panel switched to commit range mode with the range's diff
+      assert.strictEqual(reviewPanel.getCurrentReviewMode(), REVIEW_MODES.COMMIT_RANGE);
+      assert.strictEqual(reviewPanel.getCurrentCommitRange(), 'main..feature/range-test');
+
+      const currentDiff = (reviewPanel as any).currentDiff;
+      assert.strictEqual(currentDiff.length, 1);
+      assert.ok(currentDiff[0].newContent.includes('Range test'));
+
+      // Rendering marks the Commits mode as active and embeds the commit picker data
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/range-test',
+        baseBranch: 'main',
+        diff: currentDiff,
+        allBranches: ['main', 'feature/range-test'],
+        diffStats: { added: 1, removed: 0 },
+        reviewMode: REVIEW_MODES.COMMIT_RANGE,
+        commits: await gitService.getRecentCommits(workspaceRoot),
+        commitRange: 'main..feature/range-test',
+      });
+      assert.ok(/class="br-mode-btn active"\s+data-mode="commit-range"/.test(html));
+      assert.ok(html.includes('data-commit-selected-value="main..feature/range-test"'));
+      assert.ok(html.includes('Tip of feature/range-test'));
+    });
+
+    test('should anchor comments made in a single commit to the final content', async () => {
+      // Arrange: Two "commits" where the second one shifts the commented line down
+      testRepo.createBranch('feature/step-1');
+      testRepo.switchToBranch('feature/step-1');
+      testRepo.modifyFile('src/app.js', 'function main() {\n  console.log("Step one");\n}');
+      testRepo.createBranch('feature/step-2', 'feature/step-1');
+      testRepo.switchToBranch('feature/step-2');
+      testRepo.modifyFile(
+        'src/app.js',
+        '// Entry point\nfunction main() {\n  console.log("Step one");\n}'
+      );
+
+      const workspaceRoot = testRepo.getWorkspaceRoot();
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, workspaceRoot);
+      const messageHandler = (reviewPanel as any).messageHandler;
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.CHANGE_BRANCH,
+        data: { baseBranch: 'main' },
+      });
+
+      // Act: Step into the first commit and comment on its line 2
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.SELECT_BRANCH_COMMIT,
+        data: { commit: 'feature/step-1' },
+      });
+      assert.strictEqual((reviewPanel as any).currentDiff[0].newContent.includes('Entry'), false);
+
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.ADD_COMMENT,
+        data: {
+          filePath: 'src/app.js',
+          startLine: 2,
+          endLine: 2,
+          text: 'Use a logger',
+          codeSnippet: 'console.log("Step one");',
+        },
+      });
+
+      // Assert: The comment lands on line 3 of the final file and validates against the combined diff
+      const [comment] = commentStorage.getAllComments();
+      assert.strictEqual(comment.startLine, 3);
+      assert.strictEqual(comment.anchor.originalLineNumbers.start, 3);
+
+      await messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.SELECT_BRANCH_COMMIT,
+        data: { commit: '' },
+      });
+      const combinedDiff = (reviewPanel as any).currentDiff;
+      assert.ok(combinedDiff[0].newContent.includes('Entry point'));
+
+      const validComments = commentStorage.getValidCommentsForDiff(combinedDiff);
+      assert.strictEqual(validComments.length, 1);
+      assert.strictEqual(validComments[0].startLine, 3);
+    });
+
     test('should handle refresh diff workflow', async () => {
       // Arrange: Set up branch and add initial changes
       testRepo.createBranch('feature/refresh-test');
@@ -365,6 +874,67 @@ suite('Webview Interactions Integration Tests', () => {
       assert.strictEqual(commentStorage.getAllComments().length, 30);
       assert.ok(renderTime < 1000); // Should render within 1 second
     });
+    test('should render large files as shells and send their rows on request', async () => {
+      // Arrange: One small file and one file past the up-front rendering budget
+      testRepo.createBranch('feature/lazy-render');
+      testRepo.switchToBranch('feature/lazy-render');
+      testRepo.modifyFile('src/app.js', 'function main() {\n  console.log("Small file");\n}');
+      testRepo.addFile(
+        'src/huge.js',
+        Array.from({ length: 2000 }, (_, i) => `const huge${i} = ${i};`).join('\n')
+      );
+
+      const workspaceRoot = testRepo.getWorkspaceRoot();
+      const diff = await gitService.getDiffWithMain(workspaceRoot);
+
+      // Act: Render the review
+      const html = webviewRenderer.render({
+        currentBranch: 'feature/lazy-render',
+        baseBranch: 'main',
+        diff,
+        allBranches: ['main', 'feature/lazy-render'],
+        diffStats: { added: 2001, removed: 1 },
+        reviewMode: REVIEW_MODES.BRANCH_COMPARE,
+      });
+
+      // Assert: The small file is rendered, the huge one is only a shell
+      assert.ok(html.includes('Small file'));
+      assert.ok(html.includes('data-lazy-file-file-path-value="src/huge.js"'));
+      assert.ok(html.includes('Load 2000 lines'));
+      assert.ok(!html.includes('huge1999'));
+
+      // Act: The webview scrolls the shell into view and asks for its rows
+      reviewPanel = new ReviewPanel(mockContext, gitService, commentStorage, workspaceRoot);
+      (reviewPanel as any).panel = mockPanel;
+      (reviewPanel as any).renderer = webviewRenderer;
+      (reviewPanel as any).currentDiff = diff;
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.REQUEST_FILE_ROWS,
+        data: { filePath: 'src/huge.js' },
+      });
+
+      // Assert: The rows come back over the message channel
+      const rowsMessage = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .find(message => message.command === WEBVIEW_COMMANDS.FILE_ROWS_LOADED);
+      assert.ok(rowsMessage);
+      assert.strictEqual(rowsMessage.filePath, 'src/huge.js');
+      assert.ok(rowsMessage.html.includes('data-line-id="src/huge.js:new:2000"'));
+
+      // Act: Ask for the rows of a file no longer in the diff
+      await (reviewPanel as any).messageHandler.handleMessage({
+        command: WEBVIEW_COMMANDS.REQUEST_FILE_ROWS,
+        data: { filePath: 'src/gone.js' },
+      });
+
+      // Assert: The request is answered with a failure the shell can settle on and retry from
+      const failedMessage = (mockPanel.webview as MockWebview)
+        .getMessages()
+        .find(message => message.command === WEBVIEW_COMMANDS.FILE_ROWS_FAILED);
+      assert.ok(failedMessage);
+      assert.strictEqual(failedMessage.filePath, 'src/gone.js');
+      assert.ok(html.includes('file-rows:failed->lazy-file#handleRowsFailed'));
+    });
   });
 
   suite('Webview Error Handling', () => {
@@ -2,6 +2,7 @@
 export { ReviewPanel } from './reviewPanel';
 export { WebviewRenderer } from './webviewRenderer';
 export { SyntaxHighlighter } from './syntaxHighlighter';
+export { IntralineDiff } from './intralineDiff';
 
 export { ReviewModeManager } from './reviewModeManager';
 export { MessageHandler } from './messageHandler';
@@ -0,0 +1,126 @@
+// Character ranges [start, end) within a line
+export type ChangedRange = [number, number];
+
+// Token pairs above this are too costly to compare, so such lines get no word highlights
+const MAX_COMPARISONS = 250000;
+
+// Lines that changed more than this share are shown as plain replacements
+const MAX_CHANGED_SHARE = 0.6;
+
+export class IntralineDiff {
+  // Word-level diff of a removed/added line pair, as the changed ranges on each side
+  static computeChangedRanges(
+    oldLine: string,
+    newLine: string
+  ): { oldRanges: ChangedRange[]; newRanges: ChangedRange[] } {
+    const none = { oldRanges: [], newRanges: [] };
+    if (oldLine === newLine) {
+      return none;
+    }
+
+    const oldTokens = IntralineDiff.tokenize(oldLine);
+    const newTokens = IntralineDiff.tokenize(newLine);
+
+    // Common leading and trailing tokens never need the quadratic comparison
+    let prefix = 0;
+    while (
+      prefix < oldTokens.length &&
+      prefix < newTokens.length &&
+      oldTokens[prefix] === newTokens[prefix]
+    ) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < oldTokens.length - prefix &&
+      suffix < newTokens.length - prefix &&
+      oldTokens[oldTokens.length - 1 - suffix] === newTokens[newTokens.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const oldMiddle = oldTokens.slice(prefix, oldTokens.length - suffix);
+    const newMiddle = newTokens.slice(prefix, newTokens.length - suffix);
+    if (oldMiddle.length * newMiddle.length > MAX_COMPARISONS) {
+      return none;
+    }
+
+    const [oldKept, newKept] = IntralineDiff.longestCommonSubsequence(oldMiddle, newMiddle);
+    const oldRanges = IntralineDiff.toRanges(oldTokens, prefix, oldKept);
+    const newRanges = IntralineDiff.toRanges(newTokens, prefix, newKept);
+
+    // When most of the line changed, word highlights are just noise
+    if (
+      IntralineDiff.changedShare(oldRanges, oldLine) > MAX_CHANGED_SHARE &&
+      IntralineDiff.changedShare(newRanges, newLine) > MAX_CHANGED_SHARE
+    ) {
+      return none;
+    }
+
+    return { oldRanges, newRanges };
+  }
+
+  // Words, runs of whitespace and single punctuation characters
+  private static tokenize(line: string): string[] {
+    return line.match(/\w+|\s+|[^\w\s]/g) || [];
+  }
+
+  // Which tokens of each side are part of the longest common subsequence
+  private static longestCommonSubsequence(a: string[], b: string[]): [boolean[], boolean[]] {
+    const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+      new Array(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const aKept = new Array(a.length).fill(false);
+    const bKept = new Array(b.length).fill(false);
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        aKept[i++] = true;
+        bKept[j++] = true;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return [aKept, bKept];
+  }
+
+  // Merge the character spans of tokens outside the common subsequence
+  private static toRanges(tokens: string[], prefix: number, kept: boolean[]): ChangedRange[] {
+    const ranges: ChangedRange[] = [];
+    let offset = 0;
+
+    tokens.forEach((token, index) => {
+      const middleIndex = index - prefix;
+      const changed = middleIndex >= 0 && middleIndex < kept.length && !kept[middleIndex];
+
+      if (changed) {
+        const last = ranges[ranges.length - 1];
+        if (last && last[1] === offset) {
+          last[1] = offset + token.length;
+        } else {
+          ranges.push([offset, offset + token.length]);
+        }
+      }
+      offset += token.length;
+    });
+
+    return ranges;
+  }
+
+  private static changedShare(ranges: ChangedRange[], line: string): number {
+    const changed = ranges.reduce((sum, [start, end]) => sum + end - start, 0);
+    return line.length === 0 ? 0 : changed / line.length;
+  }
+}
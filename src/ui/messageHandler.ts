@@ -1,7 +1,24 @@
 import * as vscode from 'vscode';
-import { GitService, FileDiff } from '../services/gitService';
-import { CommentStorage, Comment } from '../services/commentStorage';
-import { WEBVIEW_COMMANDS } from '../constants';
+import { GitService, FileDiff, DiffOptions } from '../services/gitService';
+import { CommentStorage, Comment, CommentScope, CommentSide } from '../services/commentStorage';
+import {
+  findCommentLinesInText,
+  findFileDiffForComment,
+  splitSuggestion,
+} from '../services/commentUtils';
+import {
+  COMMENT_CATEGORIES,
+  COMMENT_SEVERITIES,
+  CommentCategory,
+  CommentSeverity,
+  DEFAULT_COMMENT_SEVERITY,
+  DIFF_ALGORITHMS,
+  DIFF_LAYOUTS,
+  DiffLayout,
+  REVIEW_MODES,
+  WEBVIEW_COMMANDS,
+  WHITESPACE_MODES,
+} from '../constants';
 import { ReviewModeManager } from './reviewModeManager';
 
 interface PanelOperations {
@@ -11,6 +28,14 @@ interface PanelOperations {
   hideWarning(): void;
   updateLoadingStatus(message: string): void;
   hideLoading(): void;
+  renderFileBody(fileDiff: FileDiff, comments: Comment[]): string;
+  renderContextRows(
+    fileDiff: FileDiff,
+    startLine: number,
+    endLine: number,
+    oldOffset: number
+  ): string;
+  setDiffLayout(layout: DiffLayout): Promise<void>;
 }
 
 /**
@@ -50,6 +75,42 @@ export class MessageHandler {
         await this.handleDeleteAllComments();
         break;
 
+      case WEBVIEW_COMMANDS.ADD_REPLY:
+        await this.handleAddReply(message);
+        break;
+
+      case WEBVIEW_COMMANDS.DELETE_REPLY:
+        await this.handleDeleteReply(message);
+        break;
+
+      case WEBVIEW_COMMANDS.RESOLVE_COMMENT:
+        await this.handleResolveComment(message);
+        break;
+
+      case WEBVIEW_COMMANDS.UNRESOLVE_COMMENT:
+        await this.handleUnresolveComment(message);
+        break;
+
+      case WEBVIEW_COMMANDS.APPLY_SUGGESTION:
+        await this.handleApplySuggestion(message);
+        break;
+
+      case WEBVIEW_COMMANDS.CONFIRM_ANCHOR:
+        await this.handleConfirmAnchor(message);
+        break;
+
+      case WEBVIEW_COMMANDS.REATTACH_COMMENT:
+        await this.handleReattachComment(message);
+        break;
+
+      case WEBVIEW_COMMANDS.CONVERT_TO_FILE_COMMENT:
+        await this.handleConvertToFileComment(message);
+        break;
+
+      case WEBVIEW_COMMANDS.DELETE_OUTDATED_COMMENTS:
+        await this.handleDeleteOutdatedComments();
+        break;
+
       case WEBVIEW_COMMANDS.REFRESH_DIFF:
         await this.handleRefreshDiff();
         break;
@@ -62,6 +123,34 @@ export class MessageHandler {
         await this.handleChangeMode(message);
         break;
 
+      case WEBVIEW_COMMANDS.CHANGE_COMMIT_RANGE:
+        await this.handleChangeCommitRange(message);
+        break;
+
+      case WEBVIEW_COMMANDS.CHANGE_WORKING_SCOPE:
+        await this.handleChangeWorkingScope(message);
+        break;
+
+      case WEBVIEW_COMMANDS.SELECT_BRANCH_COMMIT:
+        await this.handleSelectBranchCommit(message);
+        break;
+
+      case WEBVIEW_COMMANDS.REQUEST_FILE_ROWS:
+        this.handleRequestFileRows(message);
+        break;
+
+      case WEBVIEW_COMMANDS.EXPAND_CONTEXT:
+        this.handleExpandContext(message);
+        break;
+
+      case WEBVIEW_COMMANDS.CHANGE_DIFF_OPTIONS:
+        await this.handleChangeDiffOptions(message);
+        break;
+
+      case WEBVIEW_COMMANDS.CHANGE_DIFF_LAYOUT:
+        await this.handleChangeDiffLayout(message);
+        break;
+
       case WEBVIEW_COMMANDS.OPEN_FILE:
         await this.handleOpenFile(message);
         break;
@@ -76,7 +165,19 @@ export class MessageHandler {
   }
 
   private async handleAddComment(message: any): Promise<void> {
+    if (message.data.scope === 'file' || message.data.scope === 'review') {
+      await this.handleAddGeneralComment(message);
+      return;
+    }
+
     const { filePath, startLine, endLine, text, codeSnippet } = message.data;
+    const side: CommentSide = message.data.side === 'old' ? 'old' : 'new';
+    const severity: CommentSeverity = COMMENT_SEVERITIES.includes(message.data.severity)
+      ? message.data.severity
+      : DEFAULT_COMMENT_SEVERITY;
+    const category: CommentCategory | undefined = COMMENT_CATEGORIES.includes(message.data.category)
+      ? message.data.category
+      : undefined;
 
     // Find the relevant file diff
     const fileDiff = this.getCurrentFileDiff(filePath);
@@ -86,30 +187,133 @@ export class MessageHandler {
     }
 
     const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
-    const baseBranch = this.modeManager.getCurrentBaseBranch();
+    const { baseRef, headRef } = await this.modeManager.getAnchorRefs(currentBranch);
 
     const comment: Comment = {
       id: this.generateCommentId(),
       filePath,
       startLine,
       endLine,
+      side,
+      severity,
+      category,
       text,
       codeSnippet,
       timestamp: new Date().toISOString(),
       anchor: this.commentStorage.createCommentAnchor(
-        baseBranch,
-        currentBranch,
+        baseRef,
+        headRef,
         fileDiff,
         startLine,
-        endLine
+        endLine,
+        side
       ),
       status: 'current',
     };
 
-    this.commentStorage.addComment(comment);
+    const anchoredComment = this.modeManager.getCurrentBranchCommit()
+      ? await this.anchorToFinalContent(comment, baseRef, headRef)
+      : comment;
+
+    this.commentStorage.addComment(anchoredComment);
     await this.sendCommentsUpdate();
   }
 
+  /**
+   * File and review comments are not tied to lines, so they have nothing to anchor. There is
+   * only one overall review comment; adding it again replaces its text.
+   */
+  private async handleAddGeneralComment(message: any): Promise<void> {
+    const { text } = message.data;
+    const scope: CommentScope = message.data.scope;
+    const filePath = scope === 'file' ? message.data.filePath : '';
+    if (!text) {
+      return;
+    }
+
+    if (scope === 'file' && !this.getCurrentFileDiff(filePath)) {
+      this.panelOperations.showError(`Could not find diff for file: ${filePath}`);
+      return;
+    }
+
+    const overall =
+      scope === 'review'
+        ? this.commentStorage.getAllComments().find(c => c.scope === 'review' && !c.submitted)
+        : undefined;
+    if (overall) {
+      this.commentStorage.updateComment(overall.id, text);
+      await this.sendCommentsUpdate();
+      return;
+    }
+
+    const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+    const { baseRef, headRef } = await this.modeManager.getAnchorRefs(currentBranch);
+
+    this.commentStorage.addComment({
+      id: this.generateCommentId(),
+      filePath,
+      startLine: 0,
+      endLine: 0,
+      scope,
+      text,
+      codeSnippet: '',
+      timestamp: new Date().toISOString(),
+      anchor: this.generalCommentAnchor(baseRef, headRef),
+      status: 'current',
+    });
+    await this.sendCommentsUpdate();
+  }
+
+  // File and review comments have no lines, so their anchor only records the branches
+  private generalCommentAnchor(baseRef: string, headRef: string): Comment['anchor'] {
+    return {
+      baseBranch: baseRef,
+      currentBranch: headRef,
+      lineContent: '',
+      contextLines: { before: [], after: [] },
+      originalLineNumbers: { start: 0, end: 0 },
+    };
+  }
+
+  /**
+   * Comments made while stepping through a single commit are re-anchored to the branch's
+   * final file content, so they still validate against the combined diff at submit time
+   */
+  private async anchorToFinalContent(
+    comment: Comment,
+    baseRef: string,
+    headRef: string
+  ): Promise<Comment> {
+    const combinedDiff = await this.modeManager.getCombinedBranchDiff();
+    const finalFileDiff = findFileDiffForComment(comment, combinedDiff);
+    const validation = finalFileDiff
+      ? this.commentStorage.validateAndRepositionComment(comment, finalFileDiff)
+      : undefined;
+
+    if (!finalFileDiff || !validation?.newPosition) {
+      this.panelOperations.showWarning(
+        'These lines are changed again by a later commit, so this comment will show as outdated in the combined view.'
+      );
+      return comment;
+    }
+
+    const { startLine, endLine } = validation.newPosition;
+    return {
+      ...comment,
+      filePath: finalFileDiff.filePath,
+      startLine,
+      endLine,
+      anchor: this.commentStorage.createCommentAnchor(
+        baseRef,
+        headRef,
+        finalFileDiff,
+        startLine,
+        endLine,
+        comment.side
+      ),
+    };
+  }
+
   private async handleUpdateComment(message: any): Promise<void> {
     const { commentId, text } = message.data;
     this.commentStorage.updateComment(commentId, text);
@@ -127,6 +331,225 @@ export class MessageHandler {
     await this.sendCommentsUpdate();
   }
 
+  private async handleAddReply(message: any): Promise<void> {
+    const { commentId, text } = message.data;
+    if (!commentId || !text) {
+      return;
+    }
+
+    this.commentStorage.addReply(commentId, {
+      id: this.generateCommentId(),
+      text,
+      timestamp: new Date().toISOString(),
+    });
+    await this.sendCommentsUpdate();
+  }
+
+  private async handleDeleteReply(message: any): Promise<void> {
+    const { commentId, replyId } = message.data;
+    this.commentStorage.deleteReply(commentId, replyId);
+    await this.sendCommentsUpdate();
+  }
+
+  private async handleResolveComment(message: any): Promise<void> {
+    const { commentId } = message.data;
+    const resolvedBy = await this.gitService.getUserName(this.workspaceRoot);
+    this.commentStorage.resolveComment(commentId, resolvedBy);
+    await this.sendCommentsUpdate();
+  }
+
+  private async handleUnresolveComment(message: any): Promise<void> {
+    const { commentId } = message.data;
+    this.commentStorage.unresolveComment(commentId);
+    await this.sendCommentsUpdate();
+  }
+
+  private async handleApplySuggestion(message: any): Promise<void> {
+    const { commentId } = message.data;
+    const comment = this.commentStorage.getAllComments().find(c => c.id === commentId);
+    const suggestion = comment && splitSuggestion(comment.text).suggestion;
+    if (!comment || suggestion === undefined) {
+      this.panelOperations.showError('This comment has no suggestion to apply');
+      return;
+    }
+    if (comment.side === 'old') {
+      this.panelOperations.showError('Suggestions on removed lines cannot be applied');
+      return;
+    }
+
+    try {
+      // A renamed file is edited under its current path
+      const fileDiff = findFileDiffForComment(comment, this.getCurrentDiff());
+      const filePath = fileDiff ? fileDiff.filePath : comment.filePath;
+      const uri = vscode.Uri.file(require('path').join(this.workspaceRoot, filePath));
+      const document = await vscode.workspace.openTextDocument(uri);
+
+      const lines = findCommentLinesInText(comment, document.getText());
+      if (!lines) {
+        // Lines matched only by similarity need the reviewer to confirm them first
+        const shown = this.commentStorage
+          .getValidCommentsForDiff(this.getCurrentDiff())
+          .find(c => c.id === comment.id);
+        this.panelOperations.showError(
+          shown?.approximate
+            ? `The commented lines in ${filePath} were edited. Confirm where the comment moved to before applying its suggestion.`
+            : `The commented lines in ${filePath} have changed, so the suggestion cannot be applied`
+        );
+        return;
+      }
+
+      const edit = new vscode.WorkspaceEdit();
+      const lastLine = document.lineAt(lines.endLine - 1);
+      edit.replace(
+        uri,
+        new vscode.Range(lines.startLine - 1, 0, lines.endLine - 1, lastLine.text.length),
+        suggestion
+      );
+      if (!(await vscode.workspace.applyEdit(edit))) {
+        this.panelOperations.showError(`Failed to apply suggestion to ${filePath}`);
+        return;
+      }
+
+      const resolvedBy = await this.gitService.getUserName(this.workspaceRoot);
+      this.commentStorage.resolveComment(comment.id, resolvedBy);
+      await this.sendCommentsUpdate();
+      vscode.window.showInformationMessage(`Applied suggestion to ${filePath}`);
+    } catch (error) {
+      this.panelOperations.showError(`Failed to apply suggestion: ${error}`);
+    }
+  }
+
+  /**
+   * The reviewer agrees a comment belongs on the lines it was approximately matched to, so
+   * anchor it there and it shows as current from now on
+   */
+  private async handleConfirmAnchor(message: any): Promise<void> {
+    const { commentId } = message.data;
+    const currentDiff = this.getCurrentDiff();
+    const comment = this.commentStorage
+      .getValidCommentsForDiff(currentDiff)
+      .find(c => c.id === commentId);
+    const fileDiff = comment && findFileDiffForComment(comment, currentDiff);
+    if (!comment || !fileDiff) {
+      this.panelOperations.showError('Could not find where this comment moved to');
+      return;
+    }
+
+    const { startLine, endLine, side, scope } = comment;
+    this.commentStorage.reanchorComment(comment.id, {
+      filePath: fileDiff.filePath,
+      startLine,
+      endLine,
+      side,
+      scope,
+      anchor: this.commentStorage.createCommentAnchor(
+        comment.anchor.baseBranch,
+        comment.anchor.currentBranch,
+        fileDiff,
+        startLine,
+        endLine,
+        side
+      ),
+    });
+    await this.sendCommentsUpdate();
+  }
+
+  /**
+   * Move an outdated comment onto the lines the reviewer selected, anchored to them afresh
+   */
+  private async handleReattachComment(message: any): Promise<void> {
+    const { commentId, filePath, startLine, endLine } = message.data;
+    const side: CommentSide = message.data.side === 'old' ? 'old' : 'new';
+    const comment = this.commentStorage.getAllComments().find(c => c.id === commentId);
+    const fileDiff = this.getCurrentFileDiff(filePath);
+    if (!comment || !fileDiff) {
+      this.panelOperations.showError(`Could not find diff for file: ${filePath}`);
+      return;
+    }
+
+    const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+    const { baseRef, headRef } = await this.modeManager.getAnchorRefs(currentBranch);
+    const moved: Comment = {
+      ...comment,
+      filePath,
+      startLine,
+      endLine,
+      side,
+      scope: undefined,
+      anchor: this.commentStorage.createCommentAnchor(
+        baseRef,
+        headRef,
+        fileDiff,
+        startLine,
+        endLine,
+        side
+      ),
+    };
+    const anchored = this.modeManager.getCurrentBranchCommit()
+      ? await this.anchorToFinalContent(moved, baseRef, headRef)
+      : moved;
+
+    this.commentStorage.reanchorComment(comment.id, {
+      filePath: anchored.filePath,
+      startLine: anchored.startLine,
+      endLine: anchored.endLine,
+      side: anchored.side,
+      scope: anchored.scope,
+      anchor: anchored.anchor,
+    });
+    await this.sendCommentsUpdate();
+  }
+
+  /**
+   * Keep an outdated comment as a note on its whole file, which stays for as long as the file
+   * is in the diff
+   */
+  private async handleConvertToFileComment(message: any): Promise<void> {
+    const { commentId } = message.data;
+    const comment = this.commentStorage.getAllComments().find(c => c.id === commentId);
+    const fileDiff = comment && findFileDiffForComment(comment, this.getCurrentDiff());
+    if (!comment || !fileDiff) {
+      this.panelOperations.showError(
+        `${comment ? comment.filePath : 'This file'} is not in this diff, so the comment cannot become a file note`
+      );
+      return;
+    }
+
+    this.commentStorage.reanchorComment(comment.id, {
+      filePath: fileDiff.filePath,
+      startLine: 0,
+      endLine: 0,
+      side: undefined,
+      scope: 'file',
+      anchor: this.generalCommentAnchor(comment.anchor.baseBranch, comment.anchor.currentBranch),
+    });
+    await this.sendCommentsUpdate();
+  }
+
+  private async handleDeleteOutdatedComments(): Promise<void> {
+    const currentDiff = this.getCurrentDiff();
+    const outdated = this.commentStorage.getOutdatedCommentsForDiff(currentDiff).length;
+    if (outdated === 0) {
+      return;
+    }
+
+    // Deleted comments cannot be brought back, so ask first
+    const confirm = await vscode.window.showWarningMessage(
+      `Delete ${outdated} outdated comment${outdated === 1 ? '' : 's'}? This cannot be undone.`,
+      { modal: true },
+      'Delete'
+    );
+    if (confirm !== 'Delete') {
+      return;
+    }
+
+    const deleted = this.commentStorage.deleteOutdatedComments(currentDiff);
+    await this.sendCommentsUpdate();
+    vscode.window.showInformationMessage(
+      `Deleted ${deleted} outdated comment${deleted === 1 ? '' : 's'}`
+    );
+  }
+
   private async handleRefreshDiff(): Promise<void> {
     try {
       this.panelOperations.updateLoadingStatus('Refreshing diff...');
@@ -134,8 +557,22 @@ export class MessageHandler {
       // Clear any existing warnings before re-evaluating
       this.panelOperations.hideWarning();
 
-      // Re-evaluate mode selection based on current uncommitted changes
       const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+
+      // A commit range was picked explicitly, so stay on it instead of re-evaluating the mode
+      if (this.modeManager.getCurrentMode() === REVIEW_MODES.COMMIT_RANGE) {
+        const rangeDiff = await this.modeManager.getDiffForCurrentMode();
+        this.onDiffUpdate(rangeDiff);
+        await this.onContentReload(
+          currentBranch,
+          this.modeManager.getCurrentBaseBranch(),
+          rangeDiff
+        );
+        this.panelOperations.hideLoading();
+        return;
+      }
+
+      // Re-evaluate mode selection based on current uncommitted changes
       const result = await this.modeManager.determineInitialMode(currentBranch);
 
       // Show warning if there's one (e.g., uncommitted changes detected)
@@ -206,6 +643,160 @@ export class MessageHandler {
     }
   }
 
+  private async handleChangeCommitRange(message: any): Promise<void> {
+    try {
+      const { commitRange } = message.data;
+      this.panelOperations.updateLoadingStatus(`Loading commits ${commitRange}...`);
+      this.panelOperations.hideWarning();
+
+      const newDiff = await this.modeManager.switchCommitRange(commitRange);
+      this.onDiffUpdate(newDiff);
+
+      const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+      await this.onContentReload(currentBranch, this.modeManager.getCurrentBaseBranch(), newDiff);
+
+      this.panelOperations.hideLoading();
+    } catch (error) {
+      this.panelOperations.showError(`Failed to load commit range: ${error}`);
+    }
+  }
+
+  private async handleChangeWorkingScope(message: any): Promise<void> {
+    try {
+      const { scope } = message.data;
+      this.panelOperations.updateLoadingStatus(`Loading ${scope} changes...`);
+
+      const newDiff = await this.modeManager.switchWorkingScope(scope);
+      this.onDiffUpdate(newDiff);
+
+      const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+      await this.onContentReload(currentBranch, this.modeManager.getCurrentBaseBranch(), newDiff);
+
+      this.panelOperations.hideLoading();
+    } catch (error) {
+      this.panelOperations.showError(`Failed to switch working changes: ${error}`);
+    }
+  }
+
+  private async handleChangeDiffOptions(message: any): Promise<void> {
+    try {
+      this.panelOperations.updateLoadingStatus('Applying diff options...');
+
+      const newDiff = await this.modeManager.switchDiffOptions(
+        this.parseDiffOptions(message.data || {})
+      );
+      this.onDiffUpdate(newDiff);
+
+      const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+      await this.onContentReload(currentBranch, this.modeManager.getCurrentBaseBranch(), newDiff);
+
+      this.panelOperations.hideLoading();
+    } catch (error) {
+      this.panelOperations.showError(`Failed to apply diff options: ${error}`);
+    }
+  }
+
+  /**
+   * Keep only the diff options the webview sent with a value git accepts
+   */
+  private parseDiffOptions(data: any): Partial<DiffOptions> {
+    const options: Partial<DiffOptions> = {};
+    const contextLines = Number(data.contextLines);
+
+    if (Number.isInteger(contextLines) && contextLines >= 0) {
+      options.contextLines = contextLines;
+    }
+    if (DIFF_ALGORITHMS.includes(data.algorithm)) {
+      options.algorithm = data.algorithm;
+    }
+    if (Object.values(WHITESPACE_MODES).includes(data.whitespace)) {
+      options.whitespace = data.whitespace;
+    }
+    return options;
+  }
+
+  /**
+   * Re-render the current diff in another layout, without asking git again
+   */
+  private async handleChangeDiffLayout(message: any): Promise<void> {
+    const { layout } = message.data || {};
+    if (!Object.values(DIFF_LAYOUTS).includes(layout)) {
+      return;
+    }
+
+    try {
+      this.panelOperations.updateLoadingStatus('Switching diff layout...');
+      await this.panelOperations.setDiffLayout(layout);
+
+      const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+      await this.onContentReload(
+        currentBranch,
+        this.modeManager.getCurrentBaseBranch(),
+        this.getCurrentDiff()
+      );
+
+      this.panelOperations.hideLoading();
+    } catch (error) {
+      this.panelOperations.showError(`Failed to switch diff layout: ${error}`);
+    }
+  }
+
+  private async handleSelectBranchCommit(message: any): Promise<void> {
+    try {
+      const { commit } = message.data;
+      this.panelOperations.updateLoadingStatus(
+        commit ? `Loading commit ${commit}...` : 'Loading all commits...'
+      );
+
+      const newDiff = await this.modeManager.switchBranchCommit(commit);
+      this.onDiffUpdate(newDiff);
+
+      const currentBranch = await this.gitService.getCurrentBranch(this.workspaceRoot);
+      await this.onContentReload(currentBranch, this.modeManager.getCurrentBaseBranch(), newDiff);
+
+      this.panelOperations.hideLoading();
+    } catch (error) {
+      this.panelOperations.showError(`Failed to load commit: ${error}`);
+    }
+  }
+
+  private handleRequestFileRows(message: any): void {
+    const { filePath } = message.data;
+    const fileDiff = this.getCurrentFileDiff(filePath);
+    if (!fileDiff) {
+      this.panelOperations.showError(`Could not find diff for file: ${filePath}`);
+      // The webview waits on every request, so it is told this one will get no rows
+      this.panelOperations.postMessage({ command: WEBVIEW_COMMANDS.FILE_ROWS_FAILED, filePath });
+      return;
+    }
+
+    const comments = this.commentStorage.getValidCommentsForFile(filePath, this.getCurrentDiff());
+    this.panelOperations.postMessage({
+      command: WEBVIEW_COMMANDS.FILE_ROWS_LOADED,
+      filePath,
+      html: this.panelOperations.renderFileBody(fileDiff, comments),
+    });
+  }
+
+  private handleExpandContext(message: any): void {
+    const { id, filePath, startLine, endLine, oldOffset } = message.data;
+    const fileDiff = this.getCurrentFileDiff(filePath);
+    if (!fileDiff) {
+      this.panelOperations.showError(`Could not find diff for file: ${filePath}`);
+      // The expander ignores clicks until its request is answered, so it is told this one failed
+      this.panelOperations.postMessage({ command: WEBVIEW_COMMANDS.CONTEXT_FAILED, id });
+      return;
+    }
+
+    this.panelOperations.postMessage({
+      command: WEBVIEW_COMMANDS.CONTEXT_LOADED,
+      id,
+      startLine,
+      endLine,
+      html: this.panelOperations.renderContextRows(fileDiff, startLine, endLine, oldOffset),
+    });
+  }
+
   private async handleOpenFile(message: any): Promise<void> {
     try {
       const { filePath, lineNumber } = message;
@@ -234,10 +825,13 @@ export class MessageHandler {
   }
 
   private async sendCommentsUpdate(): Promise<void> {
-    const comments = this.commentStorage.getAllComments();
+    // Same view of comments as the initial load, so renamed files keep their comments
+    const currentDiff = this.getCurrentDiff();
     this.panelOperations.postMessage({
       command: WEBVIEW_COMMANDS.COMMENTS_UPDATED,
-      comments,
+      comments: this.commentStorage.getValidCommentsForDiff(currentDiff),
+      outdatedComments: this.commentStorage.getOutdatedCommentsForDiff(currentDiff),
+      commentsOutsideDiff: this.commentStorage.getCommentsOutsideDiff(currentDiff),
     });
   }
 
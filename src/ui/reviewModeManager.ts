@@ -1,19 +1,28 @@
-import { GitService, FileDiff } from '../services/gitService';
-import { REVIEW_MODES } from '../constants';
+import { GitService, FileDiff, DiffOptions, DiffProgressCallback } from '../services/gitService';
+import {
+  REVIEW_MODES,
+  ReviewMode,
+  WORKING_CHANGES_SCOPES,
+  WorkingChangesScope,
+} from '../constants';
 
 /**
  * Manages different review modes and their logic
  */
 export class ReviewModeManager {
-  private currentMode: 'branch-compare' | 'working-changes' = 'branch-compare';
+  private currentMode: ReviewMode = 'branch-compare';
   private currentBaseBranch: string = '';
+  private currentCommitRange: string = 'HEAD';
+  private currentBranchCommit: string = ''; // Commit stepped into within a branch review, '' for all
+  private currentWorkingScope: WorkingChangesScope = WORKING_CHANGES_SCOPES.ALL;
 
   constructor(
     private gitService: GitService,
-    private workspaceRoot: string
+    private workspaceRoot: string,
+    private onProgress?: DiffProgressCallback
   ) {}
 
-  getCurrentMode(): 'branch-compare' | 'working-changes' {
+  getCurrentMode(): ReviewMode {
     return this.currentMode;
   }
 
@@ -21,7 +30,23 @@ export class ReviewModeManager {
     return this.currentBaseBranch;
   }
 
-  setMode(mode: 'branch-compare' | 'working-changes'): void {
+  getCurrentCommitRange(): string {
+    return this.currentCommitRange;
+  }
+
+  getCurrentBranchCommit(): string {
+    return this.currentBranchCommit;
+  }
+
+  getCurrentWorkingScope(): WorkingChangesScope {
+    return this.currentWorkingScope;
+  }
+
+  getCurrentDiffOptions(): DiffOptions {
+    return this.gitService.getDiffOptions();
+  }
+
+  setMode(mode: ReviewMode): void {
     this.currentMode = mode;
   }
 
@@ -29,8 +54,12 @@ export class ReviewModeManager {
     this.currentBaseBranch = branch;
   }
 
+  setCommitRange(commitRange: string): void {
+    this.currentCommitRange = commitRange;
+  }
+
   async determineInitialMode(currentBranch: string): Promise<{
-    mode: 'branch-compare' | 'working-changes';
+    mode: ReviewMode;
     baseBranch: string;
     diff: FileDiff[];
     shouldShowError?: string;
@@ -39,6 +68,7 @@ export class ReviewModeManager {
     // Detect main branch
     const mainBranch = await this.gitService.getMainBranch(this.workspaceRoot);
     this.currentBaseBranch = mainBranch;
+    this.currentBranchCommit = '';
 
     // Check if there are uncommitted changes
     const hasUncommittedChanges = await this.gitService.hasUncommittedChanges(this.workspaceRoot);
@@ -47,7 +77,11 @@ export class ReviewModeManager {
     if (hasUncommittedChanges) {
       // When there ARE uncommitted changes: Default to "Working Changes" mode
       this.currentMode = 'working-changes';
-      const workingDiff = await this.gitService.getDiffWithWorkingDirectory(this.workspaceRoot);
+      const workingDiff = await this.gitService.getDiffWithWorkingDirectory(
+        this.workspaceRoot,
+        this.currentWorkingScope,
+        this.onProgress
+      );
       return {
         mode: 'working-changes',
         baseBranch: mainBranch,
@@ -69,7 +103,7 @@ export class ReviewModeManager {
       }
 
       // Get branch diff for comparison
-      const diff = await this.gitService.getDiffWithMain(this.workspaceRoot);
+      const diff = await this.gitService.getDiffWithMain(this.workspaceRoot, this.onProgress);
 
       if (diff.length === 0) {
         return {
@@ -84,23 +118,106 @@ export class ReviewModeManager {
     }
   }
 
-  async switchMode(newMode: 'branch-compare' | 'working-changes'): Promise<FileDiff[]> {
+  async switchMode(newMode: ReviewMode): Promise<FileDiff[]> {
     this.currentMode = newMode;
-
-    if (newMode === 'working-changes') {
-      return await this.gitService.getDiffWithWorkingDirectory(this.workspaceRoot);
-    } else {
-      return await this.gitService.getDiffWithBranch(this.workspaceRoot, this.currentBaseBranch);
-    }
+    this.currentBranchCommit = '';
+    return this.getDiffForCurrentMode();
   }
 
   async switchBaseBranch(newBaseBranch: string): Promise<FileDiff[]> {
     this.currentBaseBranch = newBaseBranch;
+    this.currentBranchCommit = '';
+    return this.getDiffForCurrentMode();
+  }
 
-    if (this.currentMode === 'working-changes') {
-      return await this.gitService.getDiffWithWorkingDirectory(this.workspaceRoot);
-    } else {
-      return await this.gitService.getDiffWithBranch(this.workspaceRoot, newBaseBranch);
+  async switchCommitRange(newCommitRange: string): Promise<FileDiff[]> {
+    this.currentCommitRange = newCommitRange;
+    this.currentMode = REVIEW_MODES.COMMIT_RANGE;
+    return this.getDiffForCurrentMode();
+  }
+
+  async switchWorkingScope(newScope: WorkingChangesScope): Promise<FileDiff[]> {
+    this.currentWorkingScope = newScope;
+    this.currentMode = REVIEW_MODES.WORKING_CHANGES;
+    return this.getDiffForCurrentMode();
+  }
+
+  /**
+   * Change context size, algorithm or whitespace handling and re-fetch the current diff
+   */
+  async switchDiffOptions(options: Partial<DiffOptions>): Promise<FileDiff[]> {
+    this.gitService.setDiffOptions({ ...this.gitService.getDiffOptions(), ...options });
+    return this.getDiffForCurrentMode();
+  }
+
+  /**
+   * Step into a single commit of the branch review, or back to all commits with ''
+   */
+  async switchBranchCommit(commit: string): Promise<FileDiff[]> {
+    this.currentBranchCommit = commit;
+    return this.getDiffForCurrentMode();
+  }
+
+  /**
+   * The branch's combined diff, regardless of which commit is being stepped through.
+   * Fetched in the background, so it reports no loading progress.
+   */
+  async getCombinedBranchDiff(): Promise<FileDiff[]> {
+    return await this.gitService.getDiffWithBranch(this.workspaceRoot, this.currentBaseBranch);
+  }
+
+  async getDiffForCurrentMode(): Promise<FileDiff[]> {
+    switch (this.currentMode) {
+      case REVIEW_MODES.WORKING_CHANGES:
+        return await this.gitService.getDiffWithWorkingDirectory(
+          this.workspaceRoot,
+          this.currentWorkingScope,
+          this.onProgress
+        );
+      case REVIEW_MODES.COMMIT_RANGE:
+        return await this.gitService.getDiffForCommitRange(
+          this.workspaceRoot,
+          this.currentCommitRange,
+          this.onProgress
+        );
+      default:
+        if (this.currentBranchCommit) {
+          return await this.gitService.getDiffForCommitRange(
+            this.workspaceRoot,
+            this.currentBranchCommit,
+            this.onProgress
+          );
+        }
+        return await this.gitService.getDiffWithBranch(
+          this.workspaceRoot,
+          this.currentBaseBranch,
+          this.onProgress
+        );
+    }
+  }
+
+  /**
+   * Refs a new comment's anchor is recorded against. The base is what the diff is taken from:
+   * the merge base for a branch review or `A...B`.
+   */
+  async getAnchorRefs(currentBranch: string): Promise<{ baseRef: string; headRef: string }> {
+    if (this.currentMode === REVIEW_MODES.COMMIT_RANGE) {
+      const { from, to } = await this.gitService.resolveCommitRange(
+        this.workspaceRoot,
+        this.currentCommitRange
+      );
+      return { baseRef: from, headRef: to };
     }
+
+    if (this.currentMode === REVIEW_MODES.BRANCH_COMPARE) {
+      const mergeBase = await this.gitService.getMergeBase(
+        this.workspaceRoot,
+        this.currentBaseBranch,
+        currentBranch
+      );
+      return { baseRef: mergeBase, headRef: currentBranch };
+    }
+
+    return { baseRef: this.currentBaseBranch, headRef: currentBranch };
   }
 }
@@ -1,7 +1,16 @@
 import * as vscode from 'vscode';
-import { GitService, FileDiff } from '../services/gitService';
+import { GitService, FileDiff, DiffOptions } from '../services/gitService';
 import { CommentStorage, Comment } from '../services/commentStorage';
-import { WEBVIEW_COMMANDS } from '../constants';
+import {
+  DEFAULT_DIFF_OPTIONS,
+  DIFF_LAYOUTS,
+  DiffLayout,
+  REVIEW_MODES,
+  STORAGE_KEYS,
+  ReviewMode,
+  WEBVIEW_COMMANDS,
+  WorkingChangesScope,
+} from '../constants';
 import { WebviewRenderer, WebviewData } from './webviewRenderer';
 import { ReviewModeManager } from './reviewModeManager';
 import { MessageHandler } from './messageHandler';
@@ -19,6 +28,8 @@ export class ReviewPanel {
   private renderer: WebviewRenderer | undefined;
   private currentDiff: FileDiff[] = [];
   private currentWarningMessage: string | undefined;
+  // Listeners that only matter while this panel is open, disposed with it
+  private disposables: vscode.Disposable[] = [];
 
   constructor(
     private context: vscode.ExtensionContext,
@@ -26,7 +37,9 @@ export class ReviewPanel {
     private commentStorage: CommentStorage,
     private workspaceRoot: string
   ) {
-    this.modeManager = new ReviewModeManager(gitService, workspaceRoot);
+    this.modeManager = new ReviewModeManager(gitService, workspaceRoot, message =>
+      this.updateLoadingStatus(message)
+    );
     this.messageHandler = new MessageHandler(
       gitService,
       commentStorage,
@@ -37,23 +50,62 @@ export class ReviewPanel {
       (currentBranch, baseBranch, diff) => this.loadReviewContent(currentBranch, baseBranch, diff),
       () => this.currentDiff
     );
+
+    // Diff options start from settings, and editing the settings re-fetches an open review
+    this.gitService.setDiffOptions(this.getDiffOptionsFromSettings());
+    this.disposables.push(
+      vscode.workspace.onDidChangeConfiguration(async event => {
+        if (this.panel && event.affectsConfiguration('branchReview.diff')) {
+          await this.messageHandler.handleMessage({
+            command: WEBVIEW_COMMANDS.CHANGE_DIFF_OPTIONS,
+            data: this.getDiffOptionsFromSettings(),
+          });
+        }
+      }),
+      // Comments edited outside the extension, e.g. in the repository file, show up right away
+      this.commentStorage.onDidChangeComments(async () => {
+        if (this.panel) {
+          await this.loadComments();
+        }
+      })
+    );
+  }
+
+  private getDiffOptionsFromSettings(): DiffOptions {
+    const config = vscode.workspace.getConfiguration('branchReview.diff');
+    return {
+      contextLines: config.get('contextLines', DEFAULT_DIFF_OPTIONS.contextLines),
+      algorithm: config.get('algorithm', DEFAULT_DIFF_OPTIONS.algorithm),
+      whitespace: config.get('whitespace', DEFAULT_DIFF_OPTIONS.whitespace),
+    };
   }
 
   getCurrentBaseBranch(): string {
     return this.modeManager.getCurrentBaseBranch();
   }
 
-  getCurrentReviewMode(): 'branch-compare' | 'working-changes' {
+  getCurrentReviewMode(): ReviewMode {
     return this.modeManager.getCurrentMode();
   }
 
+  getCurrentCommitRange(): string {
+    return this.modeManager.getCurrentCommitRange();
+  }
+
+  getCurrentWorkingScope(): WorkingChangesScope {
+    return this.modeManager.getCurrentWorkingScope();
+  }
+
   // Panel management methods (merged from PanelManager)
   createPanel(): vscode.WebviewPanel {
     if (this.panel) {
-      this.panel.dispose();
+      // Replaced rather than closed, so the listeners stay for the new panel
+      const previous = this.panel;
+      this.panel = undefined;
+      previous.dispose();
     }
 
-    this.panel = vscode.window.createWebviewPanel(
+    const panel = vscode.window.createWebviewPanel(
       'branchReview',
       'Branch Review',
       vscode.ViewColumn.One,
@@ -63,8 +115,16 @@ export class ReviewPanel {
         localResourceRoots: [vscode.Uri.joinPath(this.context.extensionUri, 'out', 'webview')],
       }
     );
+    this.panel = panel;
 
-    return this.panel;
+    // Closing the panel ends this review
+    panel.onDidDispose(() => {
+      if (this.panel === panel) {
+        this.dispose();
+      }
+    });
+
+    return panel;
   }
 
   getPanel(): vscode.WebviewPanel | undefined {
@@ -72,10 +132,12 @@ export class ReviewPanel {
   }
 
   dispose(): void {
-    if (this.panel) {
-      this.panel.dispose();
-      this.panel = undefined;
-    }
+    const panel = this.panel;
+    this.panel = undefined;
+    panel?.dispose();
+
+    this.disposables.forEach(disposable => disposable.dispose());
+    this.disposables = [];
   }
 
   postMessage(message: any): void {
@@ -116,6 +178,33 @@ export class ReviewPanel {
     });
   }
 
+  renderFileBody(fileDiff: FileDiff, comments: Comment[]): string {
+    return this.renderer ? this.renderer.renderFileBody(fileDiff, comments) : '';
+  }
+
+  renderContextRows(
+    fileDiff: FileDiff,
+    startLine: number,
+    endLine: number,
+    oldOffset: number
+  ): string {
+    return this.renderer
+      ? this.renderer.renderContextRows(fileDiff, startLine, endLine, oldOffset)
+      : '';
+  }
+
+  // The layout is a per-workspace preference, so it survives reopening the panel
+  getDiffLayout(): DiffLayout {
+    return this.context.workspaceState.get<DiffLayout>(
+      STORAGE_KEYS.DIFF_LAYOUT,
+      DIFF_LAYOUTS.SPLIT
+    );
+  }
+
+  async setDiffLayout(layout: DiffLayout): Promise<void> {
+    await this.context.workspaceState.update(STORAGE_KEYS.DIFF_LAYOUT, layout);
+  }
+
   async showReview(currentBranch: string, baseBranch: string, diff: FileDiff[]) {
     this.currentDiff = diff;
     this.modeManager.setBaseBranch(baseBranch);
@@ -173,11 +262,27 @@ export class ReviewPanel {
 
   private async loadReviewContent(currentBranch: string, baseBranch: string, diff: FileDiff[]) {
     try {
+      // A branch checked out since the last load keeps its own repository file of comments
+      this.commentStorage.useBranch(currentBranch);
+
       this.updateLoadingStatus('Rendering diff...');
 
       // Get all branches for branch selector
       const allBranches = await this.gitService.getAllBranches(this.workspaceRoot);
 
+      // Recent commits are only needed by the commit picker
+      const reviewMode = this.modeManager.getCurrentMode();
+      const commits =
+        reviewMode === REVIEW_MODES.COMMIT_RANGE
+          ? await this.gitService.getRecentCommits(this.workspaceRoot)
+          : [];
+
+      // The branch's own commits feed the commit-by-commit stepper
+      const branchCommits =
+        reviewMode === REVIEW_MODES.BRANCH_COMPARE
+          ? await this.gitService.getBranchCommits(this.workspaceRoot, baseBranch)
+          : [];
+
       // Calculate diff stats
       const diffStats = this.calculateDiffStats(diff);
 
@@ -187,9 +292,17 @@ export class ReviewPanel {
         currentBranch,
         baseBranch,
         allBranches,
-        reviewMode: this.modeManager.getCurrentMode(),
+        reviewMode,
+        commits,
+        commitRange: this.modeManager.getCurrentCommitRange(),
+        branchCommits,
+        selectedBranchCommit: this.modeManager.getCurrentBranchCommit(),
+        workingScope: this.modeManager.getCurrentWorkingScope(),
+        diffOptions: this.modeManager.getCurrentDiffOptions(),
+        diffLayout: this.getDiffLayout(),
         diffStats,
         warningMessage: this.currentWarningMessage,
+        comments: this.commentStorage.getValidCommentsForDiff(diff),
       };
 
       // Render the content
@@ -211,11 +324,13 @@ export class ReviewPanel {
     }
   }
 
-  private async loadComments() {
-    const comments = this.commentStorage.getValidCommentsForDiff(this.currentDiff);
+  // Also used after switching comment sets, to show the newly active set
+  async loadComments() {
     this.postMessage({
       command: WEBVIEW_COMMANDS.COMMENTS_UPDATED,
-      comments,
+      comments: this.commentStorage.getValidCommentsForDiff(this.currentDiff),
+      outdatedComments: this.commentStorage.getOutdatedCommentsForDiff(this.currentDiff),
+      commentsOutsideDiff: this.commentStorage.getCommentsOutsideDiff(this.currentDiff),
     });
   }
 
@@ -1,5 +1,6 @@
 import * as path from 'path';
 import * as Prism from 'prismjs';
+import { ChangedRange } from './intralineDiff';
 
 // Import all PrismJS language components (298+ languages)
 // Using the official loader function with no arguments loads ALL languages
@@ -7,6 +8,19 @@ const loadLanguages = require('prismjs/components/');
 loadLanguages(); // Load all 298+ languages
 
 export class SyntaxHighlighter {
+  // Syntax highlighting with the changed character ranges wrapped in `className` spans
+  static addSyntaxHighlightingWithChanges(
+    content: string,
+    filePath: string,
+    changedRanges: ChangedRange[],
+    className: string
+  ): string {
+    const highlighted = SyntaxHighlighter.addSyntaxHighlighting(content, filePath);
+    return changedRanges.length > 0
+      ? SyntaxHighlighter.wrapRanges(highlighted, changedRanges, className)
+      : highlighted;
+  }
+
   // Add server-side syntax highlighting using PrismJS
   static addSyntaxHighlighting(content: string, filePath: string): string {
     // Get language from file extension
@@ -30,6 +44,57 @@ export class SyntaxHighlighter {
     }
   }
 
+  /**
+   * Wrap text ranges of highlighted HTML in spans. Ranges count characters of the original
+   * text, so tags are skipped and entities count as one character. The span is closed and
+   * reopened around every tag, keeping it nested inside Prism's token spans.
+   */
+  private static wrapRanges(html: string, ranges: ChangedRange[], className: string): string {
+    const openSpan = `<span class="${className}">`;
+    let output = '';
+    let offset = 0;
+    let rangeIndex = 0;
+    let inside = false;
+    let i = 0;
+
+    while (i < html.length) {
+      while (rangeIndex < ranges.length && offset >= ranges[rangeIndex][1]) {
+        if (inside) {
+          output += '</span>';
+          inside = false;
+        }
+        rangeIndex++;
+      }
+
+      if (html[i] === '<') {
+        const tagEnd = html.indexOf('>', i) + 1 || html.length;
+        const tag = html.slice(i, tagEnd);
+        output += inside ? `</span>${tag}${openSpan}` : tag;
+        i = tagEnd;
+        continue;
+      }
+
+      if (!inside && rangeIndex < ranges.length && offset >= ranges[rangeIndex][0]) {
+        output += openSpan;
+        inside = true;
+      }
+
+      let charLength = 1;
+      if (html[i] === '&') {
+        const entityEnd = html.indexOf(';', i);
+        if (entityEnd !== -1 && entityEnd - i <= 10) {
+          charLength = entityEnd - i + 1;
+        }
+      }
+
+      output += html.slice(i, i + charLength);
+      i += charLength;
+      offset++;
+    }
+
+    return inside ? output + '</span>' : output;
+  }
+
   private static getLanguageFromExtension(extension: string): string | null {
     const LANGUAGE_MAP: { [key: string]: string } = {
       '.js': 'javascript',
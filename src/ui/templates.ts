@@ -19,53 +19,208 @@ const EVENTS = {
   SELECTION: {
     CHANGED: 'selection:changed',
   },
+  FILE_ROWS: {
+    LOADED: 'file-rows:loaded',
+    FAILED: 'file-rows:failed',
+  },
+  CONTEXT: {
+    LOADED: 'context:loaded',
+    FAILED: 'context:failed',
+  },
+};
+
+const STAGE_STATE_LABELS: Record<string, string> = {
+  staged: 'Staged',
+  unstaged: 'Unstaged',
+  'partially-staged': 'Partially staged',
 };
 
 export const fileDiffTemplate = (data: {
   filePath: string;
+  oldFilePath?: string;
+  stageState?: string;
   addedLines: number;
   removedLines: number;
   tableContent: string;
+  preview?: string;
+  binary?: boolean;
+  lazy?: boolean;
+  collapsed?: boolean;
 }) => `
-<div class="br-file">
+<div class="br-file" data-controller="${data.lazy ? 'lazy-file ' : ''}general-comment" data-general-comment-file-path-value="${data.filePath}"${
+  data.lazy
+    ? ` data-lazy-file-file-path-value="${data.filePath}" data-lazy-file-loaded-value="false"${data.collapsed ? ' data-lazy-file-auto-value="false"' : ''} data-action="${EVENTS.FILE_ROWS.LOADED}->lazy-file#handleRowsLoaded ${EVENTS.FILE_ROWS.FAILED}->lazy-file#handleRowsFailed"`
+    : ''
+}>
   <div class="br-file-header">
     <div class="br-file-info" data-controller="file" data-file-file-path-value="${data.filePath}">
-      <span class="br-file-path clickable" data-action="click->file#open">${data.filePath}</span>
+      ${
+        data.oldFilePath
+          ? `<span class="br-file-path br-file-path-old">${data.oldFilePath}</span><span class="br-file-rename-arrow">→</span>`
+          : ''
+      }<span class="br-file-path clickable" data-action="click->file#open">${data.filePath}</span>
       <button class="br-copy-btn" data-action="click->file#copy" title="Copy file name to clipboard">
         <svg width="14" height="14" viewBox="0 0 16 16" fill="currentColor">
           <path d="M0 6.75C0 5.784.784 5 1.75 5h1.5a.75.75 0 0 1 0 1.5h-1.5a.25.25 0 0 0-.25.25v7.5c0 .138.112.25.25.25h7.5a.25.25 0 0 0 .25-.25v-1.5a.75.75 0 0 1 1.5 0v1.5A1.75 1.75 0 0 1 9.25 16h-7.5A1.75 1.75 0 0 1 0 14.25Z"></path>
           <path d="M5 1.75C5 .784 5.784 0 6.75 0h7.5C15.216 0 16 .784 16 1.75v7.5A1.75 1.75 0 0 1 14.25 11h-7.5A1.75 1.75 0 0 1 5 9.25Zm1.75-.25a.25.25 0 0 0-.25.25v7.5c0 .138.112.25.25.25h7.5a.25.25 0 0 0 .25-.25v-7.5a.25.25 0 0 0-.25-.25Z"></path>
         </svg>
       </button>
+      ${
+        data.stageState
+          ? `<span class="br-stage-badge br-stage-badge-${data.stageState}">${STAGE_STATE_LABELS[data.stageState]}</span>`
+          : ''
+      }
     </div>
     <div class="br-file-stats">
-      <span class="br-added">+${data.addedLines}</span>
-      <span class="br-removed">-${data.removedLines}</span>
+      <button class="br-general-comment-btn" data-action="click->general-comment#showForm" title="Comment on the whole file">File note</button>
+      ${
+        data.binary
+          ? '<span class="br-binary-stat">BIN</span>'
+          : `<span class="br-added">+${data.addedLines}</span>
+      <span class="br-removed">-${data.removedLines}</span>`
+      }
     </div>
   </div>
-  <div class="split-view">
+  <div class="br-general-comments" data-general-comment-target="list"></div>
+  <div data-general-comment-target="form"></div>
+  ${data.preview || ''}
+  ${
+    data.tableContent
+      ? `<div class="split-view"${data.lazy ? ' data-lazy-file-target="body"' : ''}>
     ${data.tableContent}
+  </div>`
+      : ''
+  }
+</div>`;
+
+// Size card for files git treats as binary
+export const binaryFileTemplate = (summary: string) => `
+<div class="br-binary-card">
+  <svg width="16" height="16" viewBox="0 0 16 16" fill="currentColor">
+    <path d="M2 1.75C2 .784 2.784 0 3.75 0h6.586c.464 0 .909.184 1.237.513l2.914 2.914c.329.328.513.773.513 1.237v9.586A1.75 1.75 0 0 1 13.25 16h-9.5A1.75 1.75 0 0 1 2 14.25Zm1.75-.25a.25.25 0 0 0-.25.25v12.5c0 .138.112.25.25.25h9.5a.25.25 0 0 0 .25-.25V6h-2.75A1.75 1.75 0 0 1 9 4.25V1.5Zm6.75.062V4.25c0 .138.112.25.25.25h2.688l-.011-.013-2.914-2.914-.013-.011Z"></path>
+  </svg>
+  <span>${summary}</span>
+</div>`;
+
+// Image preview - side by side or onion skin when both versions exist, a single image otherwise
+export const imagePreviewTemplate = (data: {
+  summary: string;
+  oldSrc?: string;
+  newSrc?: string;
+}) => {
+  const frame = (src: string, caption: string, side: string) => `
+    <figure class="br-image-frame br-image-${side}">
+      <img src="${src}" alt="${caption}">
+      <figcaption>${caption}</figcaption>
+    </figure>`;
+
+  if (!data.oldSrc || !data.newSrc) {
+    return `
+<div class="br-image-diff">
+  <div class="br-image-diff-summary">${data.summary}</div>
+  <div class="br-image-side-by-side">
+    ${data.oldSrc ? frame(data.oldSrc, 'Removed', 'old') : ''}${data.newSrc ? frame(data.newSrc, 'Added', 'new') : ''}
+  </div>
+</div>`;
+  }
+
+  return `
+<div class="br-image-diff" data-controller="image-diff">
+  <div class="br-image-diff-summary">
+    <span>${data.summary}</span>
+    <div class="br-image-diff-modes">
+      <button class="br-btn br-btn-sm active" data-image-diff-target="modeButton" data-mode="side-by-side" data-action="click->image-diff#switchMode">Side by side</button>
+      <button class="br-btn br-btn-sm" data-image-diff-target="modeButton" data-mode="onion-skin" data-action="click->image-diff#switchMode">Onion skin</button>
+    </div>
+  </div>
+  <div class="br-image-side-by-side" data-image-diff-target="sideBySide">
+    ${frame(data.oldSrc, 'Before', 'old')}${frame(data.newSrc, 'After', 'new')}
+  </div>
+  <div class="br-image-onion-skin" data-image-diff-target="onionSkin" hidden>
+    <div class="br-image-onion-stack">
+      <img src="${data.oldSrc}" alt="Before">
+      <img src="${data.newSrc}" alt="After" class="br-image-onion-top" data-image-diff-target="overlay">
+    </div>
+    <label class="br-image-onion-slider">
+      Before
+      <input type="range" min="0" max="100" value="50" data-action="input->image-diff#fade">
+      After
+    </label>
   </div>
 </div>`;
+};
+
+// Stands in for a file's rows until they are requested, sized so scrolling stays stable
+export const lazyFileBodyTemplate = (lineCount: number) => `
+<div class="br-file-placeholder" style="height: ${lineCount * 20}px;">
+  <button class="br-btn br-btn-sm" data-action="click->lazy-file#load">Load ${lineCount} lines</button>
+</div>`;
 
-export const diffTableTemplate = (data: { filePath: string; rows: string }) => `
-<table class="br-unified-diff-table" data-controller="selection comment" data-selection-file-path-value="${data.filePath}" data-comment-file-path-value="${data.filePath}" data-action="${EVENTS.LINE_SELECTION.REQUEST}->selection#handleSelectionRequest ${EVENTS.LINE_SELECTION.CLEAR}->selection#handleClearRequest ${EVENTS.LINE_SELECTION.RESPONSE}->comment#handleSelectionResponse ${EVENTS.SELECTION.CHANGED}->comment#handleSelectionChanged ${EVENTS.COMMENTS.UPDATED_FORWARDED}->comment#handleCommentsUpdated">
+// Files over the large-file threshold stay collapsed until the reviewer asks for them
+export const collapsedFileBodyTemplate = (lineCount: number) => `
+<div class="br-file-collapsed">
+  <span>Large diff (${lineCount} lines) is hidden</span>
+  <button class="br-btn br-btn-sm" data-action="click->lazy-file#load">Load diff</button>
+</div>`;
+
+export const diffTableTemplate = (data: { filePath: string; rows: string; unified?: boolean }) => `
+<table class="br-unified-diff-table${data.unified ? ' br-layout-unified' : ''}" data-controller="selection comment" data-selection-file-path-value="${data.filePath}" data-comment-file-path-value="${data.filePath}" data-action="${EVENTS.LINE_SELECTION.REQUEST}->selection#handleSelectionRequest ${EVENTS.LINE_SELECTION.CLEAR}->selection#handleClearRequest ${EVENTS.LINE_SELECTION.RESPONSE}->comment#handleSelectionResponse ${EVENTS.SELECTION.CHANGED}->comment#handleSelectionChanged ${EVENTS.COMMENTS.UPDATED_FORWARDED}->comment#handleCommentsUpdated">
   <colgroup>
     <col style="width: 1%;">
-    <col style="width: 49%;">
+    <col style="width: ${data.unified ? '1' : '49'}%;">
     <col style="width: 1%;">
-    <col style="width: 49%;">
+    <col style="width: ${data.unified ? '97' : '49'}%;">
   </colgroup>
   ${data.rows}
 </table>`;
 
-export const hunkHeaderTemplate = (hunkHeader: string) => `
+// Hunk header, doubling as the expander for the unchanged lines hidden above it
+export const hunkHeaderTemplate = (
+  hunkHeader: string,
+  expander?: {
+    filePath: string;
+    startLine: number;
+    endLine: number;
+    oldOffset: number;
+    step: number;
+    canExpandUp: boolean;
+    canExpandDown: boolean;
+  }
+) => {
+  if (!expander) {
+    return `
 <tr class="br-hunk-header">
   <td class="br-hunk-header-line">...</td>
   <td colspan="3" class="br-hunk-header-content">
     <span class="br-hunk-header-text">${hunkHeader}</span>
   </td>
 </tr>`;
+  }
+
+  const hiddenLines = expander.endLine - expander.startLine + 1;
+  const stepButtons =
+    hiddenLines > expander.step
+      ? `${
+          expander.canExpandUp
+            ? `<button class="br-expand-btn" data-action="click->context-expander#expandUp" title="Show ${expander.step} more lines above">↑</button>`
+            : ''
+        }${
+          expander.canExpandDown
+            ? `<button class="br-expand-btn" data-action="click->context-expander#expandDown" title="Show ${expander.step} more lines below">↓</button>`
+            : ''
+        }`
+      : '';
+
+  return `
+<tr class="br-hunk-header br-hunk-expandable" data-controller="context-expander" data-context-expander-id-value="${expander.filePath}:${expander.endLine}" data-context-expander-file-path-value="${expander.filePath}" data-context-expander-start-value="${expander.startLine}" data-context-expander-end-value="${expander.endLine}" data-context-expander-old-offset-value="${expander.oldOffset}" data-context-expander-step-value="${expander.step}" data-action="${EVENTS.CONTEXT.LOADED}->context-expander#handleLoaded ${EVENTS.CONTEXT.FAILED}->context-expander#handleFailed">
+  <td class="br-hunk-header-line">
+    ${stepButtons}<button class="br-expand-btn" data-action="click->context-expander#expandAll" title="Show all ${hiddenLines} hidden lines">↕</button>
+  </td>
+  <td colspan="3" class="br-hunk-header-content">
+    <span class="br-hunk-header-text">${hunkHeader}</span>
+  </td>
+</tr>`;
+};
 
 export const unchangedRowTemplate = (data: {
   filePath: string;
@@ -95,12 +250,56 @@ export const changedRowTemplate = (data: {
   oldContent: string;
   newLineNum: string;
   newContent: string;
+  oldLineAttrs: string;
   newLineAttrs: string;
   newContentAttrs: string;
 }) => `
 <tr class="br-diff-row ${data.rowClass}" ${data.lineId}>
-  <td class="br-diff-line-num br-old-line-num">${data.oldLineNum}</td>
+  <td class="br-diff-line-num br-old-line-num" ${data.oldLineAttrs}>${data.oldLineNum}</td>
   <td class="br-diff-line-content br-old-content" data-search-target="searchableContent">${data.oldContent}</td>
   <td class="br-diff-line-num br-new-line-num" ${data.newLineAttrs}>${data.newLineNum}</td>
   <td class="br-diff-line-content br-new-content" data-search-target="searchableContent" ${data.newContentAttrs}>${data.newContent}</td>
 </tr>`;
+
+// Single-column row of the unified layout: both line numbers, a +/- sign and one content cell.
+// Keeps four cells so hunk headers and comment rows line up in both layouts.
+export const unifiedRowTemplate = (data: {
+  rowClass: string;
+  lineId: string;
+  oldLineNum: string;
+  newLineNum: string;
+  oldLineAttrs: string;
+  newLineAttrs: string;
+  sign: string;
+  contentClass: string;
+  content: string;
+}) => `
+<tr class="br-diff-row ${data.rowClass}" ${data.lineId}>
+  <td class="br-diff-line-num br-old-line-num" ${data.oldLineAttrs}>${data.oldLineNum}</td>
+  <td class="br-diff-line-num br-new-line-num" ${data.newLineAttrs}>${data.newLineNum}</td>
+  <td class="br-diff-sign">${data.sign}</td>
+  <td class="br-diff-line-content ${data.contentClass}" data-search-target="searchableContent">${data.content}</td>
+</tr>`;
+
+export const commitStepsTemplate = (data: {
+  commits: Array<{ hash: string; shortHash: string; subject: string; title: string }>;
+  selectedCommit: string;
+}) => `
+<div class="br-header-row-commits" data-controller="commit-steps" data-commit-steps-selected-value="${data.selectedCommit}">
+  <span class="br-comparison-label">Commits:</span>
+  <button class="br-btn br-btn-sm" data-action="click->commit-steps#previous" title="Previous commit">←</button>
+  <div class="br-commit-steps" data-commit-steps-target="list">
+    <button class="br-commit-step br-commit-step-all${data.selectedCommit ? '' : ' active'}" data-commit="" data-commit-steps-target="step" data-action="click->commit-steps#select">All commits</button>
+    ${data.commits
+      .map(
+        (commit, index) => `
+    <button class="br-commit-step${commit.hash === data.selectedCommit ? ' active' : ''}" data-commit="${commit.hash}" data-commit-steps-target="step" data-action="click->commit-steps#select" title="${commit.title}">
+      <span class="br-commit-step-index">${index + 1}</span>
+      <span class="commit-hash">${commit.shortHash}</span>
+      <span class="br-commit-step-subject">${commit.subject}</span>
+    </button>`
+      )
+      .join('')}
+  </div>
+  <button class="br-btn br-btn-sm" data-action="click->commit-steps#next" title="Next commit">→</button>
+</div>`;
@@ -1,14 +1,37 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { FileDiff } from '../services/gitService';
+import { FileDiff, CommitInfo, DiffLine, DiffOptions } from '../services/gitService';
+import { Comment, CommentSide } from '../services/commentStorage';
+import {
+  CONTEXT_EXPAND_LINES,
+  CONTEXT_LINE_CHOICES,
+  DEFAULT_DIFF_OPTIONS,
+  DIFF_ALGORITHMS,
+  DIFF_LAYOUTS,
+  DiffLayout,
+  LARGE_FILE_LINE_THRESHOLD,
+  LAZY_RENDER_EAGER_LINES,
+  REVIEW_MODES,
+  ReviewMode,
+  WHITESPACE_MODES,
+  WhitespaceMode,
+  WorkingChangesScope,
+} from '../constants';
 import { SyntaxHighlighter } from './syntaxHighlighter';
+import { IntralineDiff } from './intralineDiff';
 import {
   fileDiffTemplate,
   diffTableTemplate,
   hunkHeaderTemplate,
   unchangedRowTemplate,
   changedRowTemplate,
+  unifiedRowTemplate,
+  commitStepsTemplate,
+  lazyFileBodyTemplate,
+  collapsedFileBodyTemplate,
+  binaryFileTemplate,
+  imagePreviewTemplate,
 } from './templates';
 
 export interface WebviewData {
@@ -18,13 +41,35 @@ export interface WebviewData {
   allBranches: string[];
   diffStats: { added: number; removed: number };
   isLoading?: boolean;
-  reviewMode?: 'branch-compare' | 'working-changes';
+  reviewMode?: ReviewMode;
+  commits?: CommitInfo[];
+  commitRange?: string;
+  branchCommits?: CommitInfo[];
+  selectedBranchCommit?: string;
+  workingScope?: WorkingChangesScope;
   warningMessage?: string;
+  diffOptions?: DiffOptions;
+  diffLayout?: DiffLayout;
+  comments?: Comment[]; // Comments on hidden context lines keep those lines visible
 }
 
+const WORKING_SCOPE_DESCRIPTIONS: Record<WorkingChangesScope, string> = {
+  all: 'Uncommitted changes vs HEAD',
+  staged: 'Staged changes vs HEAD',
+  unstaged: 'Unstaged changes vs index',
+};
+
+const WHITESPACE_LABELS: Record<WhitespaceMode, string> = {
+  [WHITESPACE_MODES.SHOW_ALL]: 'Show whitespace',
+  [WHITESPACE_MODES.IGNORE_CHANGES]: 'Ignore whitespace changes',
+  [WHITESPACE_MODES.IGNORE_ALL]: 'Ignore all whitespace',
+};
+
 export class WebviewRenderer {
   private panel: vscode.WebviewPanel;
   private context: vscode.ExtensionContext;
+  // Layout of the last full render, reused for rows rendered on demand
+  private layout: DiffLayout = DIFF_LAYOUTS.SPLIT;
 
   constructor(panel: vscode.WebviewPanel, context: vscode.ExtensionContext) {
     this.panel = panel;
@@ -33,6 +78,7 @@ export class WebviewRenderer {
 
   render(data: WebviewData): string {
     const nonce = this.generateNonce();
+    this.layout = data.diffLayout || DIFF_LAYOUTS.SPLIT;
     const htmlTemplate = this.loadFile('webview.html');
     const cssContent = this.loadFile('webview.css');
 
@@ -45,9 +91,13 @@ export class WebviewRenderer {
     // Generate branches array for new branch controller
     // Escape quotes for HTML attribute but keep JSON structure
     const branchesArray = JSON.stringify(data.allBranches || []).replace(/"/g, '&quot;');
+    const commitsArray = this.escapeHtml(JSON.stringify(data.commits || []));
+    const commitRange = this.escapeHtml(data.commitRange || '');
+    const diffOptions = data.diffOptions || DEFAULT_DIFF_OPTIONS;
 
     // Get review mode (defaults to branch-compare for backward compatibility)
     const reviewMode = data.reviewMode || 'branch-compare';
+    const workingScope = data.workingScope || 'all';
 
     // Generate diff stats HTML
     const diffStats = data.isLoading
@@ -55,7 +105,12 @@ export class WebviewRenderer {
       : `<span style="color: #1a7f37; font-weight: bold;">+${data.diffStats.added}</span> <span style="color: #d1242f; font-weight: bold;">-${data.diffStats.removed}</span>`;
 
     // Generate diff HTML content
-    const diffContent = this.generateDiffHTML(data.diff, reviewMode);
+    const diffContent = this.generateDiffHTML(
+      data.diff,
+      reviewMode,
+      workingScope,
+      data.comments || []
+    );
 
     // Generate mode-specific display text
     const displayBranch = reviewMode === 'working-changes' ? 'HEAD' : data.baseBranch;
@@ -71,6 +126,16 @@ export class WebviewRenderer {
       reviewMode === 'working-changes'
         ? 'display: flex; align-items: center; gap: 8px;'
         : 'display: none;';
+    const commitRangeDisplay =
+      reviewMode === 'commit-range'
+        ? 'display: flex; align-items: center; gap: 8px;'
+        : 'display: none;';
+
+    // Commit-by-commit stepping only makes sense for a branch with several commits
+    const commitSteps =
+      reviewMode === 'branch-compare' && (data.branchCommits || []).length > 1
+        ? this.generateCommitSteps(data.branchCommits!, data.selectedBranchCommit || '')
+        : '';
 
     // Replace all placeholders
     let html = htmlTemplate
@@ -79,22 +144,42 @@ export class WebviewRenderer {
       .replace(/\{\{branchOptions\}\}/g, branchOptions)
       .replace(/\{\{branchesArray\}\}/g, branchesArray)
       .replace(/\{\{diffStats\}\}/g, diffStats)
+      .replace(/\{\{commitSteps\}\}/g, () => commitSteps)
       .replace(/\{\{diffContent\}\}/g, diffContent)
       .replace(/\{\{reviewMode\}\}/g, reviewMode)
       .replace(/\{\{branchCompareDisplay\}\}/g, branchCompareDisplay)
       .replace(/\{\{workingChangesDisplay\}\}/g, workingChangesDisplay)
+      .replace(/\{\{commitRangeDisplay\}\}/g, commitRangeDisplay)
+      .replace(/\{\{commitsArray\}\}/g, commitsArray)
+      .replace(/\{\{commitRange\}\}/g, commitRange)
+      .replace(/\{\{workingScope\}\}/g, workingScope)
+      .replace(/\{\{diffLayout\}\}/g, this.layout)
+      .replace(/\{\{workingScopeDescription\}\}/g, WORKING_SCOPE_DESCRIPTIONS[workingScope])
+      .replace(/\{\{contextLineOptions\}\}/g, this.generateContextLineOptions(diffOptions))
+      .replace(
+        /\{\{algorithmOptions\}\}/g,
+        this.generateSelectOptions(
+          DIFF_ALGORITHMS.map(algorithm => ({ value: algorithm, label: algorithm })),
+          diffOptions.algorithm
+        )
+      )
+      .replace(
+        /\{\{whitespaceOptions\}\}/g,
+        this.generateSelectOptions(
+          Object.values(WHITESPACE_MODES).map(mode => ({
+            value: mode,
+            label: WHITESPACE_LABELS[mode],
+          })),
+          diffOptions.whitespace
+        )
+      )
       .replace(/\{\{nonce\}\}/g, nonce)
       .replace(/\{\{cssPlaceholder\}\}/g, `<style>${cssContent}</style>`);
 
-    // Add mode-specific classes to buttons - replace in order of appearance
-    const replacements: string[] = [];
-    if (reviewMode === 'branch-compare') {
-      replacements.push('br-mode-btn active'); // First button (branch compare) - active
-      replacements.push('br-mode-btn inactive'); // Second button (working changes) - inactive
-    } else {
-      replacements.push('br-mode-btn inactive'); // First button (branch compare) - inactive
-      replacements.push('br-mode-btn active'); // Second button (working changes) - active
-    }
+    // Add mode-specific classes to buttons - buttons appear in the same order as REVIEW_MODES
+    const replacements = Object.values(REVIEW_MODES).map(mode =>
+      mode === reviewMode ? 'br-mode-btn active' : 'br-mode-btn inactive'
+    );
 
     // Replace each occurrence in order
     let replacementIndex = 0;
@@ -194,34 +279,145 @@ export class WebviewRenderer {
       .join('');
   }
 
-  private generateDiffHTML(diff: FileDiff[], reviewMode?: string): string {
+  private generateContextLineOptions(diffOptions: DiffOptions): string {
+    // Keep a custom value from settings selectable alongside the usual choices
+    const choices = Array.from(new Set([...CONTEXT_LINE_CHOICES, diffOptions.contextLines])).sort(
+      (a, b) => a - b
+    );
+    return this.generateSelectOptions(
+      choices.map(lines => ({ value: String(lines), label: `${lines} lines` })),
+      String(diffOptions.contextLines)
+    );
+  }
+
+  private generateSelectOptions(
+    options: { value: string; label: string }[],
+    selected: string
+  ): string {
+    return options
+      .map(
+        option =>
+          `<option value="${option.value}"${option.value === selected ? ' selected' : ''}>${option.label}</option>`
+      )
+      .join('');
+  }
+
+  private generateCommitSteps(commits: CommitInfo[], selectedCommit: string): string {
+    return commitStepsTemplate({
+      commits: commits.map(commit => ({
+        hash: commit.hash,
+        shortHash: commit.shortHash,
+        subject: this.escapeHtml(commit.subject),
+        title: this.escapeHtml(`${commit.subject} (${commit.author}, ${commit.date})`),
+      })),
+      selectedCommit,
+    });
+  }
+
+  private generateDiffHTML(
+    diff: FileDiff[],
+    reviewMode?: string,
+    workingScope?: WorkingChangesScope,
+    comments: Comment[] = []
+  ): string {
     if (!diff.length) {
-      return this.generateEmptyStateHTML(reviewMode);
+      return this.generateEmptyStateHTML(reviewMode, workingScope);
     }
 
-    return diff.map(file => this.renderFileDiff(file)).join('');
+    const largeFileThreshold = vscode.workspace
+      .getConfiguration('branchReview.diff')
+      .get<number>('largeFileLineThreshold', LARGE_FILE_LINE_THRESHOLD);
+
+    // Render files up front until the line budget runs out, the rest as shells filled on demand
+    let eagerLines = 0;
+    return diff
+      .map(file => {
+        const lineCount = file.hunks.reduce((sum, hunk) => sum + hunk.lines.length, 0);
+        if (largeFileThreshold > 0 && lineCount > largeFileThreshold) {
+          return this.renderFileDiff(file, { lineCount, collapsed: true });
+        }
+
+        const lazy = eagerLines + lineCount > LAZY_RENDER_EAGER_LINES;
+        if (!lazy) {
+          eagerLines += lineCount;
+        }
+        return this.renderFileDiff(
+          file,
+          lazy ? { lineCount, collapsed: false } : undefined,
+          comments
+        );
+      })
+      .join('');
   }
 
-  private generateEmptyStateHTML(reviewMode?: string): string {
-    const isWorkingChanges = reviewMode === 'working-changes';
+  /**
+   * Rows of a single file, for files that were rendered as shells
+   */
+  renderFileBody(file: FileDiff, comments: Comment[] = []): string {
+    return this.renderUnifiedTable(file, comments);
+  }
 
-    const title = isWorkingChanges ? 'No Uncommitted Changes' : 'No Changes Found';
-    const description = isWorkingChanges
-      ? 'Your working directory is clean - all changes have been committed.'
-      : 'There are no differences to review between the selected branches.';
+  /**
+   * Unchanged rows for hidden context lines, numbered by new line with old = new + oldOffset
+   */
+  renderContextRows(file: FileDiff, startLine: number, endLine: number, oldOffset: number): string {
+    const lines = this.splitLines(file.newContent);
+    const rows: string[] = [];
 
-    const suggestions = isWorkingChanges
+    for (
+      let newLine = Math.max(1, startLine);
+      newLine <= Math.min(endLine, lines.length);
+      newLine++
+    ) {
+      rows.push(this.renderUnchangedRow(file, newLine + oldOffset, newLine, lines[newLine - 1]));
+    }
+
+    return rows.join('');
+  }
+
+  private generateEmptyStateHTML(reviewMode?: string, workingScope?: WorkingChangesScope): string {
+    const isWorkingChanges = reviewMode === 'working-changes';
+    const isCommitRange = reviewMode === 'commit-range';
+    const isPartialScope = isWorkingChanges && workingScope && workingScope !== 'all';
+
+    const title = isPartialScope
+      ? `No ${workingScope === 'staged' ? 'Staged' : 'Unstaged'} Changes`
+      : isWorkingChanges
+        ? 'No Uncommitted Changes'
+        : 'No Changes Found';
+    const description = isPartialScope
+      ? `There are no ${workingScope} changes in your working directory.`
+      : isWorkingChanges
+        ? 'Your working directory is clean - all changes have been committed.'
+        : isCommitRange
+          ? 'The selected commits do not contain any changes to review.'
+          : 'There are no differences to review between the selected branches.';
+
+    const suggestions = isCommitRange
       ? [
-          'Make some changes to your files',
-          'Switch to "Branch Compare" mode to review committed changes',
-          'Create a new branch and make changes',
+          'Pick a different commit from the commit picker',
+          'Enter a commit range such as HEAD~3..HEAD',
+          'Switch to "Branch Compare" mode to review the whole branch',
         ]
-      : [
-          'Switch to a different branch with changes',
-          'Compare with a different base branch',
-          'Switch to "Working Changes" mode if you have uncommitted changes',
-          'Make some changes and commit them',
-        ];
+      : isPartialScope
+        ? [
+            workingScope === 'staged'
+              ? 'Stage changes with "git add" to review what is about to be committed'
+              : 'Edit files without staging them to review them here',
+            'Switch to "All" to review every uncommitted change',
+          ]
+        : isWorkingChanges
+          ? [
+              'Make some changes to your files',
+              'Switch to "Branch Compare" mode to review committed changes',
+              'Create a new branch and make changes',
+            ]
+          : [
+              'Switch to a different branch with changes',
+              'Compare with a different base branch',
+              'Switch to "Working Changes" mode if you have uncommitted changes',
+              'Make some changes and commit them',
+            ];
 
     return `
       <div class="br-empty-state">
@@ -242,7 +438,11 @@ export class WebviewRenderer {
     `;
   }
 
-  private renderFileDiff(file: FileDiff): string {
+  private renderFileDiff(
+    file: FileDiff,
+    shell?: { lineCount: number; collapsed: boolean },
+    comments: Comment[] = []
+  ): string {
     const addedLines = file.hunks.reduce(
       (sum, hunk) => sum + hunk.lines.filter(line => line.type === 'added').length,
       0
@@ -252,38 +452,119 @@ export class WebviewRenderer {
       0
     );
 
+    let tableContent = '';
+    if (shell) {
+      tableContent = shell.collapsed
+        ? collapsedFileBodyTemplate(shell.lineCount)
+        : lazyFileBodyTemplate(shell.lineCount);
+    } else if (!file.binary) {
+      tableContent = this.renderUnifiedTable(file, comments);
+    }
+
     return fileDiffTemplate({
       filePath: file.filePath,
+      oldFilePath: file.oldFilePath,
+      stageState: file.stageState,
       addedLines,
       removedLines,
-      tableContent: this.renderUnifiedTable(file),
+      tableContent,
+      preview: this.renderFilePreview(file),
+      binary: !!file.binary,
+      lazy: !!shell,
+      collapsed: shell?.collapsed,
     });
   }
 
-  private renderUnifiedTable(file: FileDiff): string {
-    const rows = this.renderTableRows(file);
+  /**
+   * Image preview or binary size card shown above (or instead of) a file's rows
+   */
+  private renderFilePreview(file: FileDiff): string {
+    // Text files like SVGs have no binary info, so measure their content instead
+    const oldSize =
+      file.status === 'added'
+        ? undefined
+        : (file.binary?.oldSize ?? Buffer.byteLength(file.oldContent));
+    const newSize =
+      file.status === 'deleted'
+        ? undefined
+        : (file.binary?.newSize ?? Buffer.byteLength(file.newContent));
+
+    const kind = file.image ? 'Image' : 'Binary file';
+    let summary: string;
+    if (oldSize === undefined) {
+      summary = `${kind} added (${this.formatFileSize(newSize || 0)})`;
+    } else if (newSize === undefined) {
+      summary = `${kind} removed (${this.formatFileSize(oldSize)})`;
+    } else {
+      summary = `${kind} changed (${this.formatFileSize(oldSize)} → ${this.formatFileSize(newSize)})`;
+    }
+
+    if (file.image && (file.image.oldSrc || file.image.newSrc)) {
+      return imagePreviewTemplate({ summary, ...file.image });
+    }
+    return file.binary ? binaryFileTemplate(summary) : '';
+  }
+
+  private formatFileSize(bytes: number): string {
+    if (bytes < 1024) {
+      return `${bytes} B`;
+    }
+    if (bytes < 1024 * 1024) {
+      return `${(bytes / 1024).toFixed(1)} KB`;
+    }
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private renderUnifiedTable(file: FileDiff, comments: Comment[] = []): string {
+    const rows = this.renderTableRows(file, comments);
 
     return diffTableTemplate({
       filePath: file.filePath,
       rows,
+      unified: this.layout === DIFF_LAYOUTS.UNIFIED,
     });
   }
 
-  private renderTableRows(file: FileDiff): string {
+  private renderTableRows(file: FileDiff, comments: Comment[]): string {
     const rows: string[] = [];
+    const totalLines = file.status === 'deleted' ? 0 : this.splitLines(file.newContent).length;
+
+    // Commented lines outside the hunks are shown, so their comments have rows to attach to
+    const revealedLines = new Set<number>();
+    comments
+      .filter(comment => comment.filePath === file.filePath && comment.side !== 'old')
+      .forEach(comment => {
+        for (let line = comment.startLine; line <= comment.endLine; line++) {
+          revealedLines.add(line);
+        }
+      });
+
+    // Next unrendered line on each side, once the previous hunk is done
+    let nextOldLine = 1;
+    let nextNewLine = 1;
 
     for (const hunk of file.hunks) {
-      // Add hunk header
-      const hunkHeader = `@@ -${hunk.oldStart},${
-        hunk.oldLines || hunk.lines.filter(l => l.type !== 'added').length
-      } +${hunk.newStart},${
-        hunk.newLines || hunk.lines.filter(l => l.type !== 'removed').length
+      const oldCount = hunk.lines.filter(l => l.type !== 'added').length;
+      const newCount = hunk.lines.filter(l => l.type !== 'removed').length;
+
+      const hunkHeader = `@@ -${hunk.oldStart},${hunk.oldLines || oldCount} +${hunk.newStart},${
+        hunk.newLines || newCount
       } @@`;
 
-      rows.push(hunkHeaderTemplate(hunkHeader));
+      // A side with no lines in the hunk reports the line before it as its start
+      let oldLine = oldCount === 0 ? hunk.oldStart + 1 : hunk.oldStart;
+      let newLine = newCount === 0 ? hunk.newStart + 1 : hunk.newStart;
+
+      rows.push(
+        ...this.renderGap(file, {
+          startLine: nextNewLine,
+          endLine: Math.min(newLine - 1, totalLines),
+          oldOffset: nextOldLine - nextNewLine,
+          hunkHeader,
+          revealedLines,
+        })
+      );
 
-      let oldLine = hunk.oldStart;
-      let newLine = hunk.newStart;
       let i = 0;
 
       while (i < hunk.lines.length) {
@@ -291,14 +572,7 @@ export class WebviewRenderer {
 
         if (line.type === 'unchanged') {
           // Unchanged lines: show same content on both sides
-          rows.push(
-            unchangedRowTemplate({
-              filePath: file.filePath,
-              oldLine,
-              newLine,
-              content: line.content,
-            })
-          );
+          rows.push(this.renderUnchangedRow(file, oldLine, newLine, line.content));
           oldLine++;
           newLine++;
           i++;
@@ -319,6 +593,15 @@ export class WebviewRenderer {
             i++;
           }
 
+          if (this.layout === DIFF_LAYOUTS.UNIFIED) {
+            rows.push(
+              ...this.renderUnifiedChange(file, removedLines, addedLines, oldLine, newLine)
+            );
+            oldLine += removedLines.length;
+            newLine += addedLines.length;
+            continue;
+          }
+
           // Pair them up
           const maxLines = Math.max(removedLines.length, addedLines.length);
 
@@ -331,25 +614,37 @@ export class WebviewRenderer {
             let newLineNum = '';
             let newContent = '';
             let newLineId = '';
+            let oldLineId = '';
             let rowClass = '';
 
+            // Paired lines get their changed words highlighted on both sides
+            const { oldRanges, newRanges } =
+              removedLine && addedLine
+                ? IntralineDiff.computeChangedRanges(removedLine.content, addedLine.content)
+                : { oldRanges: [], newRanges: [] };
+
             if (removedLine) {
               oldLineNum = oldLine.toString();
-              const highlightedOldContent = SyntaxHighlighter.addSyntaxHighlighting(
+              const highlightedOldContent = SyntaxHighlighter.addSyntaxHighlightingWithChanges(
                 removedLine.content,
-                file.filePath
+                file.filePath,
+                oldRanges,
+                'br-word-removed'
               );
-              oldContent = `<pre class="code-font" style="margin: 0; white-space: pre-wrap; font-family: inherit;">${highlightedOldContent}</pre>`;
+              oldContent = this.commentableContent(highlightedOldContent, oldLine, 'old');
+              oldLineId = `${file.filePath}:old:${oldLine}`;
               oldLine++;
             }
 
             if (addedLine) {
               newLineNum = newLine.toString();
-              const highlightedNewContent = SyntaxHighlighter.addSyntaxHighlighting(
+              const highlightedNewContent = SyntaxHighlighter.addSyntaxHighlightingWithChanges(
                 addedLine.content,
-                file.filePath
+                file.filePath,
+                newRanges,
+                'br-word-added'
               );
-              newContent = `<button class="br-comment-btn" data-line-number="${newLine}" data-action="click->comment#addComment">+</button><pre class="code-font" style="margin: 0; white-space: pre-wrap; font-family: inherit;">${highlightedNewContent}</pre>`;
+              newContent = this.commentableContent(highlightedNewContent, newLine, 'new');
               newLineId = `${file.filePath}:new:${newLine}`;
               newLine++;
             }
@@ -366,13 +661,14 @@ export class WebviewRenderer {
             rows.push(
               changedRowTemplate({
                 rowClass,
-                lineId: newLineId
-                  ? `data-line-id="${newLineId}" data-selection-target="selectableRow"`
-                  : '',
+                lineId: this.rowLineIds(newLineId, oldLineId),
                 oldLineNum,
                 oldContent,
                 newLineNum,
                 newContent,
+                oldLineAttrs: oldLineId
+                  ? `data-line-number="${oldLineNum}" data-line-side="old" data-action="click->selection#select"`
+                  : '',
                 newLineAttrs: newLineId
                   ? `data-line-number="${newLineNum}" data-action="click->selection#select"`
                   : '',
@@ -382,11 +678,197 @@ export class WebviewRenderer {
           }
         }
       }
+
+      nextOldLine = oldLine;
+      nextNewLine = newLine;
+    }
+
+    // Unchanged lines after the last hunk
+    if (file.hunks.length > 0) {
+      rows.push(
+        ...this.renderGap(file, {
+          startLine: nextNewLine,
+          endLine: totalLines,
+          oldOffset: nextOldLine - nextNewLine,
+          hunkHeader: '',
+          revealedLines,
+        })
+      );
     }
 
     return rows.join('');
   }
 
+  private renderUnchangedRow(
+    file: FileDiff,
+    oldLine: number,
+    newLine: number,
+    content: string
+  ): string {
+    if (this.layout !== DIFF_LAYOUTS.UNIFIED) {
+      return unchangedRowTemplate({ filePath: file.filePath, oldLine, newLine, content });
+    }
+
+    const highlightedContent = SyntaxHighlighter.addSyntaxHighlighting(content, file.filePath);
+    return unifiedRowTemplate({
+      rowClass: '',
+      lineId: this.rowLineIds(`${file.filePath}:new:${newLine}`, ''),
+      oldLineNum: oldLine.toString(),
+      newLineNum: newLine.toString(),
+      oldLineAttrs: '',
+      newLineAttrs: `data-line-number="${newLine}" data-action="click->selection#select"`,
+      sign: '',
+      contentClass: 'br-new-content',
+      content: this.commentableContent(highlightedContent, newLine, 'new'),
+    });
+  }
+
+  /**
+   * Unified rows for a block of changes: all removed lines first, then all added lines,
+   * with changed words still highlighted between the lines that pair up
+   */
+  private renderUnifiedChange(
+    file: FileDiff,
+    removedLines: DiffLine[],
+    addedLines: DiffLine[],
+    firstOldLine: number,
+    firstNewLine: number
+  ): string[] {
+    const ranges = removedLines.map((removedLine, j) =>
+      addedLines[j]
+        ? IntralineDiff.computeChangedRanges(removedLine.content, addedLines[j].content)
+        : { oldRanges: [], newRanges: [] }
+    );
+
+    const removedRows = removedLines.map((removedLine, j) => {
+      const oldLine = firstOldLine + j;
+      return unifiedRowTemplate({
+        rowClass: 'br-line-removed',
+        lineId: this.rowLineIds('', `${file.filePath}:old:${oldLine}`),
+        oldLineNum: oldLine.toString(),
+        newLineNum: '',
+        oldLineAttrs: `data-line-number="${oldLine}" data-line-side="old" data-action="click->selection#select"`,
+        newLineAttrs: '',
+        sign: '-',
+        contentClass: 'br-old-content',
+        content: this.commentableContent(
+          SyntaxHighlighter.addSyntaxHighlightingWithChanges(
+            removedLine.content,
+            file.filePath,
+            ranges[j].oldRanges,
+            'br-word-removed'
+          ),
+          oldLine,
+          'old'
+        ),
+      });
+    });
+
+    const addedRows = addedLines.map((addedLine, j) => {
+      const newLine = firstNewLine + j;
+      return unifiedRowTemplate({
+        rowClass: 'br-line-added',
+        lineId: this.rowLineIds(`${file.filePath}:new:${newLine}`, ''),
+        oldLineNum: '',
+        newLineNum: newLine.toString(),
+        oldLineAttrs: '',
+        newLineAttrs: `data-line-number="${newLine}" data-action="click->selection#select"`,
+        sign: '+',
+        contentClass: 'br-new-content',
+        content: this.commentableContent(
+          SyntaxHighlighter.addSyntaxHighlightingWithChanges(
+            addedLine.content,
+            file.filePath,
+            ranges[j]?.newRanges || [],
+            'br-word-added'
+          ),
+          newLine,
+          'new'
+        ),
+      });
+    });
+
+    return [...removedRows, ...addedRows];
+  }
+
+  // Line content with the + button that opens a comment on that side's line
+  private commentableContent(highlightedContent: string, line: number, side: CommentSide): string {
+    const sideAttr = side === 'old' ? ' data-line-side="old"' : '';
+    return `<button class="br-comment-btn" data-line-number="${line}"${sideAttr} data-action="click->comment#addComment">+</button><pre class="code-font" style="margin: 0; white-space: pre-wrap; font-family: inherit;">${highlightedContent}</pre>`;
+  }
+
+  // Rows are found by their new-side and old-side line ids, for selection and comment placement
+  private rowLineIds(newLineId: string, oldLineId: string): string {
+    if (!newLineId && !oldLineId) {
+      return '';
+    }
+    const ids = [
+      newLineId ? `data-line-id="${newLineId}"` : '',
+      oldLineId ? `data-old-line-id="${oldLineId}"` : '',
+    ];
+    return `${ids.filter(Boolean).join(' ')} data-selection-target="selectableRow"`;
+  }
+
+  /**
+   * Rows for the unchanged lines between two hunks: revealed lines as rows, the rest behind
+   * expandable headers. The header leading into the next hunk carries that hunk's `@@` text.
+   */
+  private renderGap(
+    file: FileDiff,
+    gap: {
+      startLine: number;
+      endLine: number;
+      oldOffset: number;
+      hunkHeader: string;
+      revealedLines: Set<number>;
+    }
+  ): string[] {
+    const { startLine, endLine, oldOffset, hunkHeader, revealedLines } = gap;
+    const rows: string[] = [];
+    const isTrailing = hunkHeader === '';
+
+    if (startLine > endLine) {
+      if (!isTrailing) {
+        rows.push(hunkHeaderTemplate(hunkHeader));
+      }
+      return rows;
+    }
+
+    let runStart = startLine;
+    while (runStart <= endLine) {
+      const revealed = revealedLines.has(runStart);
+      let runEnd = runStart;
+      while (runEnd < endLine && revealedLines.has(runEnd + 1) === revealed) {
+        runEnd++;
+      }
+
+      if (revealed) {
+        rows.push(this.renderContextRows(file, runStart, runEnd, oldOffset));
+      } else {
+        rows.push(
+          hunkHeaderTemplate(runEnd === endLine ? hunkHeader : '', {
+            filePath: file.filePath,
+            startLine: runStart,
+            endLine: runEnd,
+            oldOffset,
+            step: CONTEXT_EXPAND_LINES,
+            canExpandUp: !(isTrailing && runEnd === endLine),
+            canExpandDown: runStart > 1,
+          })
+        );
+      }
+
+      runStart = runEnd + 1;
+    }
+
+    return rows;
+  }
+
+  // A trailing newline ends the last line rather than starting a new one
+  private splitLines(content: string): string[] {
+    return content.length === 0 ? [] : content.replace(/\n$/, '').split('\n');
+  }
+
   private escapeHtml(text: string): string {
     if (!text) return '';
     return text
@@ -3,11 +3,21 @@ import { Application } from 'stimulus';
 import AppController from './controllers/app_controller.js';
 import BranchController from './controllers/branch_controller.js';
 import CommentController from './controllers/comment_controller.js';
+import CommitController from './controllers/commit_controller.js';
+import CommitStepsController from './controllers/commit_steps_controller.js';
 import CommentNavigationController from './controllers/comment_navigation_controller.js';
+import ContextExpanderController from './controllers/context_expander_controller.js';
+import DiffLayoutController from './controllers/diff_layout_controller.js';
+import DiffOptionsController from './controllers/diff_options_controller.js';
 import FileController from './controllers/file_controller.js';
+import GeneralCommentController from './controllers/general_comment_controller.js';
+import ImageDiffController from './controllers/image_diff_controller.js';
+import LazyFileController from './controllers/lazy_file_controller.js';
 import ModeToggleController from './controllers/mode_toggle_controller.js';
+import OutdatedCommentsController from './controllers/outdated_comments_controller.js';
 import SelectionController from './controllers/selection_controller.js';
 import SearchController from './controllers/search_controller.js';
+import WorkingScopeController from './controllers/working_scope_controller.js';
 
 import StickyController from './controllers/sticky_controller.js';
 
@@ -18,11 +28,21 @@ const application = Application.start();
 application.register('app', AppController);
 application.register('branch', BranchController);
 application.register('comment', CommentController);
+application.register('commit', CommitController);
+application.register('commit-steps', CommitStepsController);
 application.register('comment-navigation', CommentNavigationController);
+application.register('context-expander', ContextExpanderController);
+application.register('diff-layout', DiffLayoutController);
+application.register('diff-options', DiffOptionsController);
 application.register('file', FileController);
+application.register('general-comment', GeneralCommentController);
+application.register('image-diff', ImageDiffController);
+application.register('lazy-file', LazyFileController);
 application.register('mode-toggle', ModeToggleController);
+application.register('outdated-comments', OutdatedCommentsController);
 application.register('selection', SelectionController);
 application.register('search', SearchController);
+application.register('working-scope', WorkingScopeController);
 
 application.register('sticky', StickyController);
 
@@ -32,6 +52,10 @@ window.vscode = vscode;
 
 // Global comment storage
 window.commentStorage = [];
+// Stored comments whose lines are no longer in the diff
+window.outdatedComments = [];
+// Stored comments on files left out of the diff, e.g. when viewing a single commit
+window.commentsOutsideDiff = [];
 
 // Handle messages from extension
 window.addEventListener('message', event => {
@@ -20,11 +20,15 @@ export default class AppController extends Controller {
     switch (message.command) {
       case 'commentsUpdated':
         window.commentStorage = message.comments || [];
+        window.outdatedComments = message.outdatedComments || [];
+        window.commentsOutsideDiff = message.commentsOutsideDiff || [];
         // Update button states based on comment count
         this.updateButtonStates();
         // Trigger comment display via Stimulus action
         dispatchCustomEvent(document.body, EVENTS.COMMENTS.UPDATED, {
           comments: window.commentStorage,
+          outdatedComments: window.outdatedComments,
+          commentsOutsideDiff: window.commentsOutsideDiff,
         });
         break;
       case 'updateLoadingStatus':
@@ -44,6 +48,18 @@ export default class AppController extends Controller {
       case 'updateDiffStats':
         this.updateDiffStats(message.data);
         break;
+      case 'fileRowsLoaded':
+        this.handleFileRowsLoaded(message);
+        break;
+      case 'fileRowsFailed':
+        this.handleFileRowsFailed(message);
+        break;
+      case 'contextLoaded':
+        this.handleContextLoaded(message);
+        break;
+      case 'contextFailed':
+        this.handleContextFailed(message);
+        break;
     }
   };
 
@@ -102,6 +118,48 @@ export default class AppController extends Controller {
     });
   }
 
+  // Hand a lazily rendered file its rows
+  handleFileRowsLoaded(message) {
+    const fileElement = document.querySelector(
+      `[data-lazy-file-file-path-value="${CSS.escape(message.filePath)}"]`
+    );
+    if (fileElement) {
+      dispatchCustomEvent(fileElement, EVENTS.FILE_ROWS.LOADED, { html: message.html });
+    }
+  }
+
+  // Tell a lazily rendered file its rows will not come
+  handleFileRowsFailed(message) {
+    const fileElement = document.querySelector(
+      `[data-lazy-file-file-path-value="${CSS.escape(message.filePath)}"]`
+    );
+    if (fileElement) {
+      dispatchCustomEvent(fileElement, EVENTS.FILE_ROWS.FAILED, {});
+    }
+  }
+
+  handleContextLoaded(message) {
+    const expander = document.querySelector(
+      `[data-context-expander-id-value="${CSS.escape(message.id)}"]`
+    );
+    if (expander) {
+      dispatchCustomEvent(expander, EVENTS.CONTEXT.LOADED, {
+        html: message.html,
+        startLine: message.startLine,
+        endLine: message.endLine,
+      });
+    }
+  }
+
+  handleContextFailed(message) {
+    const expander = document.querySelector(
+      `[data-context-expander-id-value="${CSS.escape(message.id)}"]`
+    );
+    if (expander) {
+      dispatchCustomEvent(expander, EVENTS.CONTEXT.FAILED, {});
+    }
+  }
+
   initializeEventListeners() {
     // Listen for messages from extension
     window.addEventListener('message', this.handleMessage);
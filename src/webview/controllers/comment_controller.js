@@ -2,6 +2,14 @@
 import { Controller } from 'stimulus';
 import { EVENTS, dispatchCustomEvent } from '../events.js';
 
+// Same values as COMMENT_SEVERITIES and COMMENT_CATEGORIES in src/constants.ts
+const SEVERITIES = ['blocker', 'major', 'minor', 'nit'];
+const CATEGORIES = ['bug', 'style', 'perf', 'security', 'test'];
+const DEFAULT_SEVERITY = 'minor';
+
+// Same pattern as splitSuggestion in src/services/commentUtils.ts
+const SUGGESTION_BLOCK = /```suggestion[^\n]*\n([\s\S]*?)\n?```/;
+
 export default class CommentController extends Controller {
   static targets = [
     'commentDisplay',
@@ -13,6 +21,8 @@ export default class CommentController extends Controller {
     'commentContainer',
     'editForm',
     'formTextarea',
+    'formSeverity',
+    'formCategory',
     'commentForm',
   ];
   static values = {
@@ -43,8 +53,10 @@ export default class CommentController extends Controller {
     const tableCommentRows = this.element.querySelectorAll('.br-comment-display-row');
     tableCommentRows.forEach(row => row.remove());
 
-    // Display only comments that belong to this table's file
-    const relevantComments = comments.filter(comment => comment.filePath === tableFilePath);
+    // Display only line comments that belong to this table's file; file notes sit above the table
+    const relevantComments = comments.filter(
+      comment => comment.filePath === tableFilePath && (!comment.scope || comment.scope === 'line')
+    );
 
     relevantComments.forEach(comment => {
       this.displayExistingComment(comment);
@@ -56,11 +68,11 @@ export default class CommentController extends Controller {
 
   // Stimulus action to handle selection responses
   handleSelectionResponse(event) {
-    const { requestId, selectedLines } = event.detail;
+    const { requestId, selectedLines, side } = event.detail;
     const resolver = this.pendingRequests.get(requestId);
     if (resolver) {
       this.pendingRequests.delete(requestId);
-      resolver(selectedLines || []);
+      resolver({ selectedLines: selectedLines || [], side: side || 'new' });
     }
   }
 
@@ -80,7 +92,7 @@ export default class CommentController extends Controller {
       setTimeout(() => {
         if (this.pendingRequests.has(requestId)) {
           this.pendingRequests.delete(requestId);
-          resolve([]);
+          resolve({ selectedLines: [], side: 'new' });
         }
       }, 100);
     });
@@ -110,20 +122,35 @@ export default class CommentController extends Controller {
     // All event listeners now handled declaratively via data-action
   }
 
+  // Row of a line on either side; removed lines are found by their old-side id
+  findLineRow(filePath, side, lineNumber) {
+    const attribute = side === 'old' ? 'data-old-line-id' : 'data-line-id';
+    return document.querySelector(`[${attribute}="${filePath}:${side}:${lineNumber}"]`);
+  }
+
+  lineRangeLabel(startLine, endLine, side) {
+    const range = `${startLine}${startLine !== endLine ? `-${endLine}` : ''}`;
+    return side === 'old' ? `Old lines ${range}` : `Lines ${range}`;
+  }
+
   displayExistingComment(comment) {
     const { filePath, startLine, endLine, text } = comment;
+    const side = comment.side || 'new';
 
     // Find the row to insert the comment after (use the last line of the comment range)
-    const insertAfterRow = document.querySelector(`[data-line-id="${filePath}:new:${endLine}"]`);
+    const insertAfterRow = this.findLineRow(filePath, side, endLine);
 
     if (!insertAfterRow) {
       return;
     }
 
-    // Create comment display row
+    // Create comment display row; resolved comments start collapsed to their header
     const commentRow = document.createElement('tr');
-    commentRow.className = 'br-comment-display-row';
+    commentRow.className = comment.resolved
+      ? 'br-comment-display-row br-comment-resolved br-comment-collapsed'
+      : 'br-comment-display-row';
     commentRow.setAttribute('data-comment-target', 'commentDisplay');
+    commentRow.setAttribute('data-comment-id', comment.id);
     commentRow.innerHTML = `
             <td class="br-comment-form-spacer"></td>
             <td class="br-comment-form-spacer"></td>
@@ -131,9 +158,14 @@ export default class CommentController extends Controller {
                 <div class="br-comment-container" data-comment-target="commentContainer">
                     <div class="br-comment-header">
                         <div class="br-comment-meta">
-                            Lines ${startLine}${startLine !== endLine ? `-${endLine}` : ''}
+                            ${this.labelBadges(comment)}${this.lineRangeLabel(startLine, endLine, side)}${this.approximateLabel(comment)}${this.resolvedLabel(comment.resolved)}
                         </div>
                         <div class="br-comment-actions">
+                            ${
+                              comment.resolved
+                                ? '<button class="br-comment-action-btn" data-action="click->comment#unresolve" title="Reopen comment">↺</button>'
+                                : '<button class="br-comment-action-btn" data-action="click->comment#resolve" title="Resolve comment">✓</button>'
+                            }
                             <button class="br-comment-action-btn" data-controller="comment" data-comment-file-path-value="${this.escapeHtml(filePath)}" data-comment-start-line-value="${startLine}" data-comment-end-line-value="${endLine}" data-comment-text-value="${this.escapeHtml(text)}" data-action="click->comment#editInline" title="Edit comment">
                                 <svg width="12" height="12" viewBox="0 0 16 16" fill="currentColor">
                                     <path d="M11.013 1.427a1.75 1.75 0 0 1 2.474 0l1.086 1.086a1.75 1.75 0 0 1 0 2.474l-8.61 8.61c-.21.21-.47.364-.756.445l-3.251.93a.75.75 0 0 1-.927-.928l.929-3.25c.081-.286.235-.547.445-.758l8.61-8.61Zm.176 4.823L9.75 4.81l-6.286 6.287a.253.253 0 0 0-.064.108l-.558 1.953 1.953-.558a.253.253 0 0 0 .108-.064Z"/>
@@ -147,7 +179,11 @@ export default class CommentController extends Controller {
                         </div>
                     </div>
                     <div class="br-comment-body">
-                        <div class="br-comment-text">${this.escapeHtml(text)}</div>
+                        ${this.commentBodyHtml(comment)}
+                    </div>
+                    ${this.repliesHtml(comment.replies || [])}
+                    <div class="br-comment-reply-bar">
+                        <button class="br-comment-reply-btn" data-action="click->comment#showReplyForm">Reply…</button>
                     </div>
                 </div>
             </td>
@@ -157,6 +193,160 @@ export default class CommentController extends Controller {
     insertAfterRow.parentNode.insertBefore(commentRow, insertAfterRow.nextSibling);
   }
 
+  // Comment prose, with a ```suggestion block shown as a mini-diff against the commented lines
+  commentBodyHtml(comment) {
+    const match = comment.text.match(SUGGESTION_BLOCK);
+    if (!match) {
+      return `<div class="br-comment-text">${this.escapeHtml(comment.text)}</div>`;
+    }
+
+    const prose = comment.text.replace(SUGGESTION_BLOCK, '').trim();
+    const diffRows = (lines, sign, className) =>
+      lines
+        .map(
+          line =>
+            `<tr class="${className}"><td class="br-suggestion-sign">${sign}</td><td class="br-suggestion-code">${this.escapeHtml(line)}</td></tr>`
+        )
+        .join('');
+    const oldLines = comment.anchor?.lineContent ? comment.anchor.lineContent.split('\n') : [];
+    const newLines = match[1] === '' ? [] : match[1].split('\n');
+    // Removed lines are gone from the working file, so there is nothing to apply them to
+    const applyButton =
+      comment.side === 'old'
+        ? ''
+        : '<button class="br-btn br-btn-secondary br-suggestion-apply" data-action="click->comment#applySuggestion">Apply suggestion</button>';
+
+    return `
+                        ${prose ? `<div class="br-comment-text">${this.escapeHtml(prose)}</div>` : ''}
+                        <div class="br-suggestion">
+                            <div class="br-suggestion-header">
+                                <span>Suggested change</span>
+                                ${applyButton}
+                            </div>
+                            <table class="br-suggestion-diff">
+                                ${diffRows(oldLines, '-', 'br-suggestion-removed')}${diffRows(newLines, '+', 'br-suggestion-added')}
+                            </table>
+                        </div>`;
+  }
+
+  applySuggestion(event) {
+    window.vscode.postMessage({
+      command: 'applySuggestion',
+      data: { commentId: event.currentTarget.closest('.br-comment-display-row').dataset.commentId },
+    });
+  }
+
+  labelBadges(comment) {
+    const severity = this.escapeHtml(comment.severity || DEFAULT_SEVERITY);
+    const category = comment.category
+      ? `<span class="br-category-badge">${this.escapeHtml(comment.category)}</span>`
+      : '';
+    return `<span class="br-severity-badge br-severity-${severity}">${severity}</span>${category}`;
+  }
+
+  // Lines found only by similarity may not be the ones the comment was about
+  approximateLabel(comment) {
+    if (!comment.approximate) return '';
+
+    return ` · <span class="br-comment-approximate" title="The commented lines were edited; this is the closest match">moved (approximate)</span> <button class="br-comment-toggle" data-action="click->comment#confirmAnchor" title="Keep this comment on these lines">Confirm</button>`;
+  }
+
+  confirmAnchor(event) {
+    window.vscode.postMessage({
+      command: 'confirmAnchor',
+      data: { commentId: event.currentTarget.closest('.br-comment-display-row').dataset.commentId },
+    });
+  }
+
+  resolvedLabel(resolved) {
+    if (!resolved) return '';
+
+    return ` · <button class="br-comment-toggle" data-action="click->comment#toggleCollapsed" title="Show or hide this resolved comment">Resolved by ${this.escapeHtml(resolved.by)} on ${new Date(resolved.at).toLocaleDateString()}</button>`;
+  }
+
+  toggleCollapsed(event) {
+    event.currentTarget.closest('.br-comment-display-row').classList.toggle('br-comment-collapsed');
+  }
+
+  resolve(event) {
+    window.vscode.postMessage({
+      command: 'resolveComment',
+      data: { commentId: event.currentTarget.closest('.br-comment-display-row').dataset.commentId },
+    });
+  }
+
+  unresolve(event) {
+    window.vscode.postMessage({
+      command: 'unresolveComment',
+      data: { commentId: event.currentTarget.closest('.br-comment-display-row').dataset.commentId },
+    });
+  }
+
+  // Follow-ups below the original note, oldest first
+  repliesHtml(replies) {
+    if (replies.length === 0) return '';
+
+    return `
+                    <div class="br-comment-replies">
+                        ${replies
+                          .map(
+                            reply => `
+                        <div class="br-comment-reply" data-reply-id="${this.escapeHtml(reply.id)}">
+                            <div class="br-comment-reply-header">
+                                <span class="br-comment-reply-time">${new Date(reply.timestamp).toLocaleString()}</span>
+                                <button class="br-comment-action-btn br-comment-action-danger" data-action="click->comment#deleteReply" title="Delete reply">×</button>
+                            </div>
+                            <div class="br-comment-text">${this.escapeHtml(reply.text)}</div>
+                        </div>`
+                          )
+                          .join('')}
+                    </div>`;
+  }
+
+  showReplyForm(event) {
+    const replyBar = event.currentTarget.closest('.br-comment-reply-bar');
+    replyBar.innerHTML = `
+                        <textarea class="br-comment-textarea" rows="2" placeholder="Reply..."></textarea>
+                        <div class="br-comment-form-actions">
+                            <button class="br-btn br-btn-secondary" data-action="click->comment#cancelReply">Cancel</button>
+                            <button class="br-btn br-btn-primary" data-action="click->comment#submitReply">Reply</button>
+                        </div>
+        `;
+    replyBar.querySelector('textarea').focus();
+  }
+
+  cancelReply(event) {
+    const replyBar = event.currentTarget.closest('.br-comment-reply-bar');
+    replyBar.innerHTML = `
+                        <button class="br-comment-reply-btn" data-action="click->comment#showReplyForm">Reply…</button>
+        `;
+  }
+
+  submitReply(event) {
+    const replyBar = event.currentTarget.closest('.br-comment-reply-bar');
+    const text = replyBar.querySelector('textarea').value.trim();
+    if (!text) return;
+
+    // The thread is re-rendered with the new reply when comments:updated arrives
+    window.vscode.postMessage({
+      command: 'addReply',
+      data: {
+        commentId: replyBar.closest('.br-comment-display-row').dataset.commentId,
+        text,
+      },
+    });
+  }
+
+  deleteReply(event) {
+    window.vscode.postMessage({
+      command: 'deleteReply',
+      data: {
+        commentId: event.currentTarget.closest('.br-comment-display-row').dataset.commentId,
+        replyId: event.currentTarget.closest('.br-comment-reply').dataset.replyId,
+      },
+    });
+  }
+
   async addComment(event) {
     // Prevent triggering the parent selection event
     event.stopPropagation();
@@ -168,6 +358,7 @@ export default class CommentController extends Controller {
     }
 
     const lineNumber = parseInt(targetElement.dataset.lineNumber);
+    const side = targetElement.dataset.lineSide || 'new';
     const filePath = this.filePathValue;
 
     if (!lineNumber || !filePath) {
@@ -176,22 +367,21 @@ export default class CommentController extends Controller {
 
     // Request selection data via event
     const requestId = Date.now().toString();
-    const selectedLines = await this.getSelectedLinesForFile(filePath, requestId);
+    const selection = await this.getSelectedLinesForFile(filePath, requestId);
+    const selectedLines = selection.side === side ? selection.selectedLines : [];
 
     // If no lines are selected, default to the line where the + button was clicked
     const finalSelectedLines = selectedLines.length === 0 ? [lineNumber] : selectedLines;
 
-    this.showCommentForm(filePath, finalSelectedLines);
+    this.showCommentForm(filePath, finalSelectedLines, side);
   }
 
-  showCommentForm(filePath, selectedLines) {
+  showCommentForm(filePath, selectedLines, side = 'new') {
     // Remove any existing comment forms using targets
     this.commentFormRowTargets.forEach(form => form.remove());
 
     const lastLineNumber = selectedLines[selectedLines.length - 1] || 1;
-    const insertAfterRow = document.querySelector(
-      `[data-line-id="${filePath}:new:${lastLineNumber}"]`
-    );
+    const insertAfterRow = this.findLineRow(filePath, side, lastLineNumber);
 
     if (!insertAfterRow) {
       return;
@@ -203,6 +393,7 @@ export default class CommentController extends Controller {
     const commentRow = document.createElement('tr');
     commentRow.className = 'br-comment-form-row';
     commentRow.setAttribute('data-comment-target', 'commentFormRow');
+    commentRow.setAttribute('data-comment-side', side);
     commentRow.innerHTML = `
             <td class="br-comment-form-spacer"></td>
             <td class="br-comment-form-spacer"></td>
@@ -211,11 +402,20 @@ export default class CommentController extends Controller {
                 <div class="br-comment-container br-comment-container-form" data-comment-target="commentForm">
                     <div class="br-comment-header">
                         <div class="br-comment-meta">
-                            New comment · Lines ${startLine}${startLine !== endLine ? `-${endLine}` : ''}
+                            New comment · ${this.lineRangeLabel(startLine, endLine, side)}
                         </div>
                     </div>
                     <div class="br-comment-body">
                         <textarea class="br-comment-textarea" data-comment-target="formTextarea" placeholder="Enter your comment..." rows="3"></textarea>
+                        <div class="br-comment-form-labels">
+                            <select class="br-select" data-comment-target="formSeverity" title="Severity">
+                                ${SEVERITIES.map(severity => `<option value="${severity}"${severity === DEFAULT_SEVERITY ? ' selected' : ''}>${severity}</option>`).join('')}
+                            </select>
+                            <select class="br-select" data-comment-target="formCategory" title="Category">
+                                <option value="">no category</option>
+                                ${CATEGORIES.map(category => `<option value="${category}">${category}</option>`).join('')}
+                            </select>
+                        </div>
                         <div class="br-comment-form-actions">
                             <button class="br-btn br-btn-secondary" data-action="click->comment#cancelForm">Cancel</button>
                             <button class="br-btn br-btn-primary" data-action="click->comment#submitForFile">Add comment</button>
@@ -464,21 +664,23 @@ export default class CommentController extends Controller {
       return;
     }
 
+    // The form remembers which side of the diff it was opened on
+    const side = this.commentFormTarget.closest('tr')?.dataset.commentSide || 'new';
+
     // Get selected lines via event
     const requestId = Date.now().toString();
-    const fileLines = await this.getSelectedLinesForFile(filePath, requestId);
+    const selection = await this.getSelectedLinesForFile(filePath, requestId);
+    const fileLines = selection.side === side ? selection.selectedLines : [];
 
     if (fileLines.length === 0) {
       // If no lines selected, use the line where comment form was opened
       const formRow = this.commentFormTarget.closest('tr');
       const prevRow = formRow ? formRow.previousElementSibling : null;
-      if (prevRow && prevRow.dataset.lineId) {
-        const lineId = prevRow.dataset.lineId;
-        // Only use if it's a new side line
-        if (lineId.includes(':new:')) {
-          const lineNumber = parseInt(lineId.split(':')[2]);
-          fileLines.push(lineNumber);
-        }
+      const lineId =
+        prevRow && (side === 'old' ? prevRow.dataset.oldLineId : prevRow.dataset.lineId);
+      if (lineId) {
+        const lineNumber = parseInt(lineId.split(':')[2]);
+        fileLines.push(lineNumber);
       } else {
         this.isSubmitting = false;
         return;
@@ -498,6 +700,9 @@ export default class CommentController extends Controller {
         filePath,
         startLine,
         endLine,
+        side,
+        severity: this.hasFormSeverityTarget ? this.formSeverityTarget.value : DEFAULT_SEVERITY,
+        category: this.hasFormCategoryTarget ? this.formCategoryTarget.value : '',
         text,
         codeSnippet: `Lines ${startLine}-${endLine}`,
         timestamp: new Date().toISOString(),
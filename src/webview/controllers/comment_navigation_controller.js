@@ -2,33 +2,17 @@
 import { Controller } from 'stimulus';
 
 export default class CommentNavigationController extends Controller {
-  static targets = ['count', 'prevButton', 'nextButton'];
+  static targets = ['count', 'prevButton', 'nextButton', 'resolvedFilter'];
 
   connect() {
     this.currentCommentIndex = -1;
     this.comments = [];
     this.updateCommentData();
     this.setupEventListeners();
-
-    // Also listen for DOM changes to catch new comments
-    this.observer = new MutationObserver(() => {
-      setTimeout(() => this.updateCommentData(), 100);
-    });
-
-    const mainContent = document.getElementById('mainContent');
-    if (mainContent) {
-      this.observer.observe(mainContent, {
-        childList: true,
-        subtree: true,
-      });
-    }
   }
 
   disconnect() {
     this.removeEventListeners();
-    if (this.observer) {
-      this.observer.disconnect();
-    }
   }
 
   // Arrow function as class property for comments updated handler
@@ -45,15 +29,38 @@ export default class CommentNavigationController extends Controller {
     document.removeEventListener('comments:updated', this.handleCommentsUpdated);
   }
 
+  // Resolved comments are skipped unless the filter asks for them
+  toggleResolved() {
+    this.currentCommentIndex = -1;
+    this.updateCommentData();
+  }
+
   updateCommentData() {
-    // Get all comment elements from the DOM
-    this.comments = Array.from(document.querySelectorAll('.br-comment-display-row'));
+    // Use the comment list rather than the DOM, since lazily rendered files may not have rows yet
+    const fileOrder = Array.from(document.querySelectorAll('.br-file-info')).map(
+      fileInfo => fileInfo.dataset.fileFilePathValue
+    );
+    const includeResolved = this.hasResolvedFilterTarget && this.resolvedFilterTarget.checked;
+    // File and overall comments have no lines to jump to
+    const visibleComments = (window.commentStorage || []).filter(
+      comment =>
+        fileOrder.includes(comment.filePath) && (!comment.scope || comment.scope === 'line')
+    );
+    const resolvedCount = visibleComments.filter(comment => comment.resolved).length;
+
+    this.comments = visibleComments
+      .filter(comment => includeResolved || !comment.resolved)
+      .sort(
+        (a, b) =>
+          fileOrder.indexOf(a.filePath) - fileOrder.indexOf(b.filePath) || a.startLine - b.startLine
+      );
 
     // Update count display
     if (this.hasCountTarget) {
       const count = this.comments.length;
+      const skipped = includeResolved || resolvedCount === 0 ? '' : ` (${resolvedCount} resolved)`;
       this.countTarget.textContent =
-        count === 0 ? 'No comments' : `${count} comment${count === 1 ? '' : 's'}`;
+        (count === 0 ? 'No comments' : `${count} comment${count === 1 ? '' : 's'}`) + skipped;
     }
 
     // Update button states
@@ -98,23 +105,27 @@ export default class CommentNavigationController extends Controller {
     this.scrollToCurrentComment();
   }
 
-  scrollToCurrentComment() {
+  async scrollToCurrentComment() {
     if (this.currentCommentIndex < 0 || this.currentCommentIndex >= this.comments.length) return;
 
-    const comment = this.comments[this.currentCommentIndex];
+    const commentRow = await this.findCommentRow(this.comments[this.currentCommentIndex]);
+    if (!commentRow) return;
 
     // Remove previous highlight
-    this.comments.forEach(c => c.classList.remove('br-comment-highlighted'));
+    document
+      .querySelectorAll('.br-comment-highlighted')
+      .forEach(row => row.classList.remove('br-comment-highlighted'));
 
-    // Highlight current comment
-    comment.classList.add('br-comment-highlighted');
+    // Highlight current comment, opening it if it was resolved and collapsed
+    commentRow.classList.remove('br-comment-collapsed');
+    commentRow.classList.add('br-comment-highlighted');
 
     // Scroll to comment with offset for sticky headers
     const headerHeight = document.querySelector('.br-header')?.offsetHeight || 120;
     const fileHeaderHeight = 50; // Approximate file header height
     const offset = headerHeight + fileHeaderHeight + 20; // Extra padding
 
-    const commentTop = comment.getBoundingClientRect().top + window.pageYOffset;
+    const commentTop = commentRow.getBoundingClientRect().top + window.pageYOffset;
     window.scrollTo({
       top: commentTop - offset,
       behavior: 'smooth',
@@ -122,7 +133,29 @@ export default class CommentNavigationController extends Controller {
 
     // Remove highlight after a short delay
     setTimeout(() => {
-      comment.classList.remove('br-comment-highlighted');
+      commentRow.classList.remove('br-comment-highlighted');
     }, 2000);
   }
+
+  // Render the comment's file first if it is still a lazy shell
+  async findCommentRow(comment) {
+    const fileInfo = document.querySelector(
+      `.br-file-info[data-file-file-path-value="${CSS.escape(comment.filePath)}"]`
+    );
+    const fileElement = fileInfo && fileInfo.closest('.br-file');
+    if (!fileElement) return null;
+
+    const lazyFile = this.application.getControllerForElementAndIdentifier(
+      fileElement,
+      'lazy-file'
+    );
+    if (lazyFile) {
+      await lazyFile.load();
+    }
+
+    return (
+      fileElement.querySelector(`.br-comment-display-row[data-comment-id="${comment.id}"]`) ||
+      fileElement.querySelector('.br-file-header')
+    );
+  }
 }
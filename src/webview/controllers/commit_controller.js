@@ -0,0 +1,266 @@
+// Commit Controller - Searchable commit picker for single commits and commit ranges
+import { Controller } from 'stimulus';
+
+export default class CommitController extends Controller {
+  static targets = ['input', 'dropdown', 'list', 'searchInput'];
+  static values = {
+    commits: Array,
+    selected: String,
+  };
+
+  connect() {
+    this.filteredCommits = this.commitsValue || [];
+    this.isOpen = false;
+    this.highlightedIndex = -1; // Track highlighted item for keyboard navigation
+    this.rangeStart = null; // First commit of a Shift+click range
+
+    if (this.hasInputTarget && this.selectedValue) {
+      this.inputTarget.value = this.selectedValue;
+      this.inputTarget.title = this.describeRange(this.selectedValue);
+    }
+
+    // Close dropdown when clicking outside
+    document.addEventListener('click', this.handleOutsideClick);
+  }
+
+  disconnect() {
+    document.removeEventListener('click', this.handleOutsideClick);
+  }
+
+  // Toggle dropdown open/closed
+  toggle(event) {
+    event.stopPropagation();
+
+    if (this.isOpen) {
+      this.close();
+    } else {
+      this.open();
+    }
+  }
+
+  open() {
+    this.isOpen = true;
+    this.dropdownTarget.style.display = 'block';
+    this.inputTarget.classList.add('active');
+
+    // Focus search input for immediate typing
+    setTimeout(() => {
+      if (this.hasSearchInputTarget) {
+        this.searchInputTarget.focus();
+        this.searchInputTarget.select();
+      }
+    }, 50);
+
+    this.renderCommits();
+  }
+
+  close() {
+    this.isOpen = false;
+    this.dropdownTarget.style.display = 'none';
+    this.inputTarget.classList.remove('active');
+    this.highlightedIndex = -1;
+    this.rangeStart = null;
+
+    if (this.hasSearchInputTarget) {
+      this.searchInputTarget.value = '';
+    }
+    this.filteredCommits = this.commitsValue || [];
+  }
+
+  // Handle search input - matches hash, subject or author
+  search(event) {
+    const query = event.target.value.toLowerCase().trim();
+    const commits = this.commitsValue || [];
+
+    if (query === '' || this.isRangeExpression(query)) {
+      this.filteredCommits = commits;
+    } else {
+      this.filteredCommits = commits.filter(
+        commit =>
+          commit.hash.startsWith(query) ||
+          commit.subject.toLowerCase().includes(query) ||
+          commit.author.toLowerCase().includes(query)
+      );
+    }
+
+    this.highlightedIndex = this.filteredCommits.length > 0 ? 0 : -1;
+    this.renderCommits();
+  }
+
+  // Handle keyboard navigation in search input
+  handleKeydown(event) {
+    if (!this.isOpen) return;
+
+    switch (event.key) {
+      case 'Escape':
+        event.preventDefault();
+        this.close();
+        break;
+      case 'Enter':
+        event.preventDefault();
+        this.submitFromKeyboard();
+        break;
+      case 'ArrowDown':
+        event.preventDefault();
+        if (this.filteredCommits.length === 0) return;
+        this.highlightedIndex = Math.min(
+          this.highlightedIndex + 1,
+          this.filteredCommits.length - 1
+        );
+        this.renderCommits();
+        this.scrollToHighlighted();
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        if (this.filteredCommits.length === 0) return;
+        this.highlightedIndex = Math.max(this.highlightedIndex - 1, 0);
+        this.renderCommits();
+        this.scrollToHighlighted();
+        break;
+    }
+  }
+
+  submitFromKeyboard() {
+    const query = this.hasSearchInputTarget ? this.searchInputTarget.value.trim() : '';
+
+    // Typed ranges (A..B / A...B) and unknown revisions go straight to git
+    if (this.isRangeExpression(query) || (query && this.filteredCommits.length === 0)) {
+      this.selectRange(query);
+      return;
+    }
+
+    const commit = this.filteredCommits[this.highlightedIndex];
+    if (commit) {
+      this.selectRange(commit.shortHash);
+    }
+  }
+
+  scrollToHighlighted() {
+    if (this.highlightedIndex < 0) return;
+    const highlightedElement = this.listTarget.children[this.highlightedIndex];
+    if (highlightedElement) {
+      highlightedElement.scrollIntoView({ block: 'nearest' });
+    }
+  }
+
+  // Click selects a single commit, Shift+click selects an inclusive range of commits
+  selectCommit(event) {
+    event.stopPropagation();
+    const hash = event.currentTarget.dataset.hash;
+
+    if (!event.shiftKey) {
+      this.selectRange(this.shortHashFor(hash));
+      return;
+    }
+
+    if (!this.rangeStart) {
+      this.rangeStart = hash;
+      this.renderCommits();
+      return;
+    }
+
+    this.selectRange(this.buildRange(this.rangeStart, hash));
+  }
+
+  // Build an inclusive "older^..newer" range (commits are listed newest first)
+  buildRange(firstHash, secondHash) {
+    const commits = this.commitsValue || [];
+    const firstIndex = commits.findIndex(commit => commit.hash === firstHash);
+    const secondIndex = commits.findIndex(commit => commit.hash === secondHash);
+
+    if (firstIndex === secondIndex) {
+      return this.shortHashFor(firstHash);
+    }
+
+    const older = commits[Math.max(firstIndex, secondIndex)];
+    const newer = commits[Math.min(firstIndex, secondIndex)];
+    return `${older.shortHash}^..${newer.shortHash}`;
+  }
+
+  selectRange(commitRange) {
+    this.selectedValue = commitRange;
+    this.inputTarget.value = commitRange;
+    this.inputTarget.title = this.describeRange(commitRange);
+    this.close();
+
+    // Show immediate loading feedback by finding the app controller
+    const appController = this.application.getControllerForElementAndIdentifier(
+      document.body,
+      'app'
+    );
+    if (appController) {
+      appController.showLoading();
+      appController.updateLoadingStatus(`Loading commits ${commitRange}...`);
+    }
+
+    window.vscode.postMessage({
+      command: 'changeCommitRange',
+      data: { commitRange },
+    });
+  }
+
+  shortHashFor(hash) {
+    const commit = (this.commitsValue || []).find(c => c.hash === hash);
+    return commit ? commit.shortHash : hash;
+  }
+
+  describeRange(commitRange) {
+    const commit = (this.commitsValue || []).find(c => c.shortHash === commitRange);
+    return commit ? `${commit.shortHash} ${commit.subject}` : commitRange;
+  }
+
+  isRangeExpression(query) {
+    return query.includes('..');
+  }
+
+  // Handle clicks outside dropdown - arrow function as class property
+  handleOutsideClick = event => {
+    if (!this.element.contains(event.target)) {
+      this.close();
+    }
+  };
+
+  escapeHtml(text) {
+    if (!text) return '';
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  // Render filtered commits
+  renderCommits() {
+    if (!this.hasListTarget) return;
+
+    if (this.filteredCommits.length === 0) {
+      this.listTarget.innerHTML =
+        '<div class="no-results">No matching commits - press Enter to use it as a revision</div>';
+      this.highlightedIndex = -1;
+      return;
+    }
+
+    this.listTarget.innerHTML = this.filteredCommits
+      .map((commit, index) => {
+        let cssClasses = 'branch-item commit-item';
+        if (commit.shortHash === this.selectedValue) cssClasses += ' selected';
+        if (index === this.highlightedIndex) cssClasses += ' highlighted';
+        if (commit.hash === this.rangeStart) cssClasses += ' range-start';
+
+        return `
+        <div
+          class="${cssClasses}"
+          data-hash="${commit.hash}"
+          data-action="click->commit#selectCommit"
+          title="${this.escapeHtml(commit.subject)}"
+        >
+          <span class="commit-hash">${commit.shortHash}</span>
+          <span class="branch-name commit-subject">${this.escapeHtml(commit.subject)}</span>
+          <span class="commit-meta">${this.escapeHtml(commit.author)} · ${commit.date}</span>
+        </div>
+      `;
+      })
+      .join('');
+  }
+}
@@ -0,0 +1,64 @@
+// Commit Steps Controller - Step through a branch review one commit at a time
+import { Controller } from 'stimulus';
+
+export default class CommitStepsController extends Controller {
+  static targets = ['list', 'step'];
+  static values = {
+    selected: String,
+  };
+
+  connect() {
+    // Keep the active commit visible when the branch has many commits
+    const activeStep = this.stepTargets.find(step => step.classList.contains('active'));
+    if (activeStep) {
+      activeStep.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+    }
+  }
+
+  select(event) {
+    this.selectCommit(event.currentTarget.dataset.commit);
+  }
+
+  previous() {
+    this.step(-1);
+  }
+
+  next() {
+    this.step(1);
+  }
+
+  // Move through the steps in order, where the first step is "All commits"
+  step(direction) {
+    const index = this.stepTargets.findIndex(step => step.dataset.commit === this.selectedValue);
+    const nextStep = this.stepTargets[index + direction];
+    if (nextStep) {
+      this.selectCommit(nextStep.dataset.commit);
+    }
+  }
+
+  selectCommit(commit) {
+    if (commit === this.selectedValue) return;
+    this.selectedValue = commit;
+
+    this.stepTargets.forEach(step => {
+      step.classList.toggle('active', step.dataset.commit === commit);
+    });
+
+    // Show immediate loading feedback by finding the app controller
+    const appController = this.application.getControllerForElementAndIdentifier(
+      document.body,
+      'app'
+    );
+    if (appController) {
+      appController.showLoading();
+      appController.updateLoadingStatus(
+        commit ? `Loading commit ${commit.substring(0, 7)}...` : 'Loading all commits...'
+      );
+    }
+
+    window.vscode.postMessage({
+      command: 'selectBranchCommit',
+      data: { commit },
+    });
+  }
+}
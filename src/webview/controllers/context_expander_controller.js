@@ -0,0 +1,83 @@
+// Context Expander Controller - Reveals unchanged lines hidden between hunks
+import { Controller } from 'stimulus';
+import { EVENTS, dispatchCustomEvent } from '../events.js';
+
+export default class ContextExpanderController extends Controller {
+  static values = {
+    id: String,
+    filePath: String,
+    start: Number,
+    end: Number,
+    oldOffset: Number,
+    step: Number,
+  };
+
+  // Lines just above the next hunk
+  expandUp() {
+    this.request(
+      Math.max(this.startValue, this.endValue - this.stepValue + 1),
+      this.endValue,
+      'up'
+    );
+  }
+
+  // Lines just below the previous hunk
+  expandDown() {
+    this.request(
+      this.startValue,
+      Math.min(this.endValue, this.startValue + this.stepValue - 1),
+      'down'
+    );
+  }
+
+  expandAll() {
+    this.request(this.startValue, this.endValue, 'down');
+  }
+
+  request(startLine, endLine, direction) {
+    if (this.pendingDirection) return;
+    this.pendingDirection = direction;
+
+    window.vscode.postMessage({
+      command: 'expandContext',
+      data: {
+        id: this.idValue,
+        filePath: this.filePathValue,
+        startLine,
+        endLine,
+        oldOffset: this.oldOffsetValue,
+      },
+    });
+  }
+
+  handleLoaded(event) {
+    const { html, startLine, endLine } = event.detail;
+    const table = this.element.closest('table');
+
+    // Revealed lines stay next to the hunk they were expanded from
+    if (this.pendingDirection === 'up') {
+      this.element.insertAdjacentHTML('afterend', html);
+      this.endValue = startLine - 1;
+    } else {
+      this.element.insertAdjacentHTML('beforebegin', html);
+      this.startValue = endLine + 1;
+    }
+    this.pendingDirection = null;
+
+    if (this.startValue > this.endValue) {
+      this.element.remove();
+    }
+
+    // Show comments that belong to the revealed lines
+    if (table) {
+      dispatchCustomEvent(table, EVENTS.COMMENTS.UPDATED_FORWARDED, {
+        comments: window.commentStorage || [],
+      });
+    }
+  }
+
+  // Nothing was revealed, so the buttons can be clicked again
+  handleFailed() {
+    this.pendingDirection = null;
+  }
+}
@@ -0,0 +1,42 @@
+// Diff Layout Controller - Switch the diff tables between split and unified layouts
+import { Controller } from 'stimulus';
+
+export default class DiffLayoutController extends Controller {
+  static targets = ['button'];
+  static values = {
+    selected: String,
+  };
+
+  connect() {
+    this.updateButtonStates();
+  }
+
+  change(event) {
+    const layout = event.currentTarget.dataset.layout;
+    if (layout === this.selectedValue) return;
+
+    this.selectedValue = layout;
+    this.updateButtonStates();
+
+    // Show immediate loading feedback by finding the app controller
+    const appController = this.application.getControllerForElementAndIdentifier(
+      document.body,
+      'app'
+    );
+    if (appController) {
+      appController.showLoading();
+      appController.updateLoadingStatus('Switching diff layout...');
+    }
+
+    window.vscode.postMessage({
+      command: 'changeDiffLayout',
+      data: { layout },
+    });
+  }
+
+  updateButtonStates() {
+    this.buttonTargets.forEach(button => {
+      button.classList.toggle('active', button.dataset.layout === this.selectedValue);
+    });
+  }
+}
@@ -0,0 +1,27 @@
+// Diff Options Controller - Context lines, diff algorithm and whitespace handling
+import { Controller } from 'stimulus';
+
+export default class DiffOptionsController extends Controller {
+  static targets = ['contextLines', 'algorithm', 'whitespace'];
+
+  change() {
+    // Show immediate loading feedback by finding the app controller
+    const appController = this.application.getControllerForElementAndIdentifier(
+      document.body,
+      'app'
+    );
+    if (appController) {
+      appController.showLoading();
+      appController.updateLoadingStatus('Applying diff options...');
+    }
+
+    window.vscode.postMessage({
+      command: 'changeDiffOptions',
+      data: {
+        contextLines: this.contextLinesTarget.value,
+        algorithm: this.algorithmTarget.value,
+        whitespace: this.whitespaceTarget.value,
+      },
+    });
+  }
+}
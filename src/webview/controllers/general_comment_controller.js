@@ -0,0 +1,129 @@
+// General Comment Controller - Notes on a whole file, or the one overall comment on the review
+import { Controller } from 'stimulus';
+import { EVENTS } from '../events.js';
+
+export default class GeneralCommentController extends Controller {
+  static targets = ['list', 'form', 'addButton'];
+  static values = {
+    filePath: String,
+  };
+
+  // Arrow function as class property for comments updated handler
+  handleCommentsUpdated = event => {
+    this.render(event.detail.comments || []);
+  };
+
+  connect() {
+    document.addEventListener(EVENTS.COMMENTS.UPDATED, this.handleCommentsUpdated);
+    this.render(window.commentStorage || []);
+  }
+
+  disconnect() {
+    document.removeEventListener(EVENTS.COMMENTS.UPDATED, this.handleCommentsUpdated);
+  }
+
+  // Placed in a file header this controller holds file notes, in the top header the overall comment
+  get scope() {
+    return this.hasFilePathValue ? 'file' : 'review';
+  }
+
+  render(comments) {
+    const notes = comments.filter(
+      comment =>
+        comment.scope === this.scope &&
+        (this.scope === 'review' || comment.filePath === this.filePathValue)
+    );
+
+    this.listTarget.innerHTML = notes.map(note => this.noteHtml(note)).join('');
+
+    // There is only one overall comment, so once written it is edited rather than added to
+    if (this.hasAddButtonTarget) {
+      this.addButtonTarget.hidden = notes.length > 0;
+    }
+  }
+
+  noteHtml(note) {
+    const label = this.scope === 'review' ? 'Overall' : 'File note';
+    return `
+            <div class="br-general-comment" data-comment-id="${this.escapeHtml(note.id)}">
+                <div class="br-comment-header">
+                    <div class="br-comment-meta">${label}</div>
+                    <div class="br-comment-actions">
+                        <button class="br-comment-action-btn" data-action="click->general-comment#edit" title="Edit comment">✎</button>
+                        <button class="br-comment-action-btn br-comment-action-danger" data-action="click->general-comment#delete" title="Delete comment">×</button>
+                    </div>
+                </div>
+                <div class="br-comment-text">${this.escapeHtml(note.text)}</div>
+            </div>`;
+  }
+
+  showForm() {
+    this.openForm('', '');
+  }
+
+  edit(event) {
+    const commentId = event.currentTarget.closest('.br-general-comment').dataset.commentId;
+    const note = (window.commentStorage || []).find(comment => comment.id === commentId);
+    if (note) {
+      this.openForm(commentId, note.text);
+    }
+  }
+
+  openForm(commentId, text) {
+    const placeholder =
+      this.scope === 'review'
+        ? 'Overall comment on this review...'
+        : 'Comment on the whole file...';
+    this.formTarget.innerHTML = `
+            <div class="br-general-comment-form" data-comment-id="${this.escapeHtml(commentId)}">
+                <textarea class="br-comment-textarea" rows="3" placeholder="${placeholder}">${this.escapeHtml(text)}</textarea>
+                <div class="br-comment-form-actions">
+                    <button class="br-btn br-btn-secondary" data-action="click->general-comment#cancel">Cancel</button>
+                    <button class="br-btn br-btn-primary" data-action="click->general-comment#save">Save</button>
+                </div>
+            </div>`;
+    this.formTarget.querySelector('textarea').focus();
+  }
+
+  cancel() {
+    this.formTarget.innerHTML = '';
+  }
+
+  save() {
+    const form = this.formTarget.querySelector('.br-general-comment-form');
+    const text = form.querySelector('textarea').value.trim();
+    if (!text) return;
+
+    // The note is re-rendered when comments:updated arrives
+    if (form.dataset.commentId) {
+      window.vscode.postMessage({
+        command: 'updateComment',
+        data: { commentId: form.dataset.commentId, text },
+      });
+    } else {
+      window.vscode.postMessage({
+        command: 'addComment',
+        data: { scope: this.scope, filePath: this.filePathValue, text },
+      });
+    }
+    this.cancel();
+  }
+
+  delete(event) {
+    window.vscode.postMessage({
+      command: 'deleteComment',
+      data: { commentId: event.currentTarget.closest('.br-general-comment').dataset.commentId },
+    });
+  }
+
+  // Helper function to properly escape text for HTML
+  escapeHtml(text) {
+    if (!text) return '';
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
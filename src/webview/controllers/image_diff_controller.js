@@ -0,0 +1,21 @@
+// Image Diff Controller - Switch image previews between side by side and onion skin
+import { Controller } from 'stimulus';
+
+export default class ImageDiffController extends Controller {
+  static targets = ['modeButton', 'sideBySide', 'onionSkin', 'overlay'];
+
+  switchMode(event) {
+    const mode = event.currentTarget.dataset.mode;
+
+    this.modeButtonTargets.forEach(button => {
+      button.classList.toggle('active', button.dataset.mode === mode);
+    });
+    this.sideBySideTarget.hidden = mode !== 'side-by-side';
+    this.onionSkinTarget.hidden = mode !== 'onion-skin';
+  }
+
+  // Fade the new image over the old one
+  fade(event) {
+    this.overlayTarget.style.opacity = event.target.value / 100;
+  }
+}
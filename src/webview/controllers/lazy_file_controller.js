@@ -0,0 +1,91 @@
+// Lazy File Controller - Requests a file's rows when its shell scrolls into view,
+// or when "Load diff" is clicked for collapsed large files
+import { Controller } from 'stimulus';
+import { EVENTS, dispatchCustomEvent } from '../events.js';
+
+export default class LazyFileController extends Controller {
+  static targets = ['body'];
+  static values = {
+    filePath: String,
+    loaded: Boolean,
+    auto: { type: Boolean, default: true },
+  };
+
+  connect() {
+    if (!this.autoValue) return;
+
+    // Start loading a little before the file reaches the viewport
+    this.observer = new IntersectionObserver(
+      entries => {
+        if (entries.some(entry => entry.isIntersecting)) {
+          this.load();
+        }
+      },
+      { rootMargin: '600px 0px' }
+    );
+    this.observer.observe(this.element);
+  }
+
+  disconnect() {
+    if (this.observer) {
+      this.observer.disconnect();
+    }
+  }
+
+  // Resolves once the rows are rendered or have failed, so callers can wait for them
+  load() {
+    if (this.loadedValue) {
+      return Promise.resolve();
+    }
+
+    if (!this.loadPromise) {
+      this.loadPromise = new Promise(resolve => {
+        this.resolveLoad = resolve;
+      });
+
+      window.vscode.postMessage({
+        command: 'requestFileRows',
+        data: { filePath: this.filePathValue },
+      });
+    }
+
+    return this.loadPromise;
+  }
+
+  // Settle the pending load without rows, and stop loading on scroll until retried
+  handleRowsFailed() {
+    this.autoValue = false;
+    this.disconnect();
+    this.bodyTarget.innerHTML = `<div class="br-file-collapsed">
+  <span>This file's diff could not be loaded</span>
+  <button class="br-btn br-btn-sm" data-action="click->lazy-file#load">Retry</button>
+</div>`;
+
+    const resolveLoad = this.resolveLoad;
+    this.loadPromise = null;
+    this.resolveLoad = null;
+    if (resolveLoad) {
+      resolveLoad();
+    }
+  }
+
+  handleRowsLoaded(event) {
+    this.bodyTarget.innerHTML = event.detail.html;
+    this.loadedValue = true;
+    this.disconnect();
+
+    // Wait for Stimulus to connect the new table's controllers before showing its comments
+    setTimeout(() => {
+      const table = this.bodyTarget.querySelector('table');
+      if (table) {
+        dispatchCustomEvent(table, EVENTS.COMMENTS.UPDATED_FORWARDED, {
+          comments: window.commentStorage || [],
+        });
+      }
+
+      if (this.resolveLoad) {
+        this.resolveLoad();
+      }
+    }, 0);
+  }
+}
@@ -1,7 +1,7 @@
 import { Controller } from 'stimulus'
 
 export default class ModeToggleController extends Controller {
-  static targets = ['branchBtn', 'workingBtn']
+  static targets = ['branchBtn', 'workingBtn', 'commitsBtn']
 
   connect() {
     // Don't modify the initial state - preserve what the renderer set
@@ -39,17 +39,13 @@ export default class ModeToggleController extends Controller {
 
   updateButtonStates(mode) {
     // Clear all state classes first
-    this.branchBtnTarget.classList.remove('active', 'inactive')
-    this.workingBtnTarget.classList.remove('active', 'inactive')
+    const buttons = [this.branchBtnTarget, this.workingBtnTarget, this.commitsBtnTarget]
+    buttons.forEach(button => button.classList.remove('active', 'inactive'))
 
     // Set new states
-    if (mode === 'branch-compare') {
-      this.branchBtnTarget.classList.add('active')
-      this.workingBtnTarget.classList.add('inactive')
-    } else {
-      this.branchBtnTarget.classList.add('inactive')
-      this.workingBtnTarget.classList.add('active')
-    }
+    buttons.forEach(button => {
+      button.classList.add(button.dataset.mode === mode ? 'active' : 'inactive')
+    })
   }
 
   getCurrentMode() {
@@ -60,6 +56,9 @@ export default class ModeToggleController extends Controller {
     if (this.workingBtnTarget.classList.contains('active')) {
       return 'working-changes'
     }
+    if (this.commitsBtnTarget.classList.contains('active')) {
+      return 'commit-range'
+    }
     return 'branch-compare' // default
   }
 
@@ -0,0 +1,153 @@
+// Outdated Comments Controller - Stored comments whose lines can no longer be found in the diff,
+// and comments on files the diff leaves out
+import { Controller } from 'stimulus';
+import { EVENTS } from '../events.js';
+
+export default class OutdatedCommentsController extends Controller {
+  static targets = [
+    'list',
+    'count',
+    'hint',
+    'reattachButton',
+    'deleteAllButton',
+    'outsideSection',
+    'outsideList',
+    'outsideCount',
+  ];
+
+  // The lines most recently selected in any file, which outdated comments can be re-attached to
+  selection = null;
+
+  // Arrow function as class property for comments updated handler
+  handleCommentsUpdated = event => {
+    this.render(event.detail.outdatedComments || [], event.detail.commentsOutsideDiff || []);
+  };
+
+  handleSelectionChanged = event => {
+    const { filePath, selectedLines, side } = event.detail;
+    this.selection =
+      selectedLines && selectedLines.length > 0
+        ? {
+            filePath,
+            startLine: selectedLines[0],
+            endLine: selectedLines[selectedLines.length - 1],
+            side,
+          }
+        : null;
+    this.updateReattachButtons();
+  };
+
+  connect() {
+    document.addEventListener(EVENTS.COMMENTS.UPDATED, this.handleCommentsUpdated);
+    document.addEventListener(EVENTS.SELECTION.CHANGED, this.handleSelectionChanged);
+    this.render(window.outdatedComments || [], window.commentsOutsideDiff || []);
+  }
+
+  disconnect() {
+    document.removeEventListener(EVENTS.COMMENTS.UPDATED, this.handleCommentsUpdated);
+    document.removeEventListener(EVENTS.SELECTION.CHANGED, this.handleSelectionChanged);
+  }
+
+  render(comments, outsideComments) {
+    this.element.hidden = comments.length === 0 && outsideComments.length === 0;
+    this.countTarget.textContent = comments.length;
+    this.listTarget.innerHTML = comments.map(comment => this.commentHtml(comment)).join('');
+    this.deleteAllButtonTarget.disabled = comments.length === 0;
+
+    // Still part of the review when more of it is shown, so only deleted one at a time
+    this.outsideSectionTarget.hidden = outsideComments.length === 0;
+    this.outsideCountTarget.textContent = outsideComments.length;
+    this.outsideListTarget.innerHTML = outsideComments
+      .map(comment => this.commentHtml(comment))
+      .join('');
+    this.updateReattachButtons();
+  }
+
+  commentHtml(comment) {
+    const location =
+      comment.scope === 'file'
+        ? 'File note'
+        : `${comment.side === 'old' ? 'Old lines' : 'Lines'} ${comment.startLine}${comment.startLine !== comment.endLine ? `-${comment.endLine}` : ''}`;
+    const snippet = comment.anchor && comment.anchor.lineContent;
+    const reason = comment.validationInfo ? comment.validationInfo.reason : '';
+    return `
+            <div class="br-outdated-comment" data-comment-id="${this.escapeHtml(comment.id)}">
+                <div class="br-comment-header">
+                    <div class="br-comment-meta">
+                        <span class="br-outdated-location">${this.escapeHtml(comment.filePath)} · ${location}</span>
+                        <span class="br-outdated-reason">${this.escapeHtml(reason)}</span>
+                    </div>
+                    <div class="br-comment-actions">
+                        <button class="br-btn br-btn-secondary" data-outdated-comments-target="reattachButton" data-action="click->outdated-comments#reattach" disabled>Re-attach</button>
+                        <button class="br-btn br-btn-secondary" data-action="click->outdated-comments#convertToFile" title="Keep this as a note on the whole file">File note</button>
+                        <button class="br-comment-action-btn br-comment-action-danger" data-action="click->outdated-comments#delete" title="Delete comment">×</button>
+                    </div>
+                </div>
+                ${snippet ? `<pre class="br-outdated-snippet">${this.escapeHtml(snippet)}</pre>` : ''}
+                <div class="br-comment-text">${this.escapeHtml(comment.text)}</div>
+            </div>`;
+  }
+
+  // Re-attaching needs lines to attach to, so the buttons say where they would go
+  updateReattachButtons() {
+    const { selection } = this;
+    const target = selection
+      ? `${selection.filePath}:${selection.startLine}${selection.startLine !== selection.endLine ? `-${selection.endLine}` : ''}`
+      : '';
+    this.reattachButtonTargets.forEach(button => {
+      button.disabled = !selection;
+      button.title = selection
+        ? `Attach this comment to ${target}`
+        : 'Select lines in the diff to attach this comment to';
+    });
+    if (this.hasHintTarget) {
+      this.hintTarget.textContent = selection
+        ? `Selected: ${target}`
+        : 'Select lines in the diff to re-attach a comment to them.';
+    }
+  }
+
+  commentIdFor(event) {
+    return event.currentTarget.closest('.br-outdated-comment').dataset.commentId;
+  }
+
+  reattach(event) {
+    if (!this.selection) return;
+
+    window.vscode.postMessage({
+      command: 'reattachComment',
+      data: { commentId: this.commentIdFor(event), ...this.selection },
+    });
+  }
+
+  convertToFile(event) {
+    window.vscode.postMessage({
+      command: 'convertToFileComment',
+      data: { commentId: this.commentIdFor(event) },
+    });
+  }
+
+  delete(event) {
+    window.vscode.postMessage({
+      command: 'deleteComment',
+      data: { commentId: this.commentIdFor(event) },
+    });
+  }
+
+  deleteAll() {
+    window.vscode.postMessage({
+      command: 'deleteOutdatedComments',
+    });
+  }
+
+  // Helper function to properly escape text for HTML
+  escapeHtml(text) {
+    if (!text) return '';
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+}
@@ -93,6 +93,18 @@ export default class SearchController extends Controller {
   }
 
   performSearch(query) {
+    // Files still rendered as shells have no rows to search, so load them first
+    const pendingFiles = this.getPendingLazyFiles();
+    if (pendingFiles.length > 0) {
+      this.resultsTarget.textContent = 'Loading files...';
+      Promise.all(pendingFiles.map(file => file.load())).then(() => {
+        if (this.inputTarget.value.trim() === query) {
+          this.performSearch(query);
+        }
+      });
+      return;
+    }
+
     this.lastSearchQuery = query;
     this.clearHighlights();
 
@@ -145,6 +157,17 @@ export default class SearchController extends Controller {
     }
   }
 
+  // Collapsed large files stay collapsed until the reviewer loads them
+  getPendingLazyFiles() {
+    return Array.from(
+      document.querySelectorAll(
+        '[data-lazy-file-loaded-value="false"]:not([data-lazy-file-auto-value="false"])'
+      )
+    )
+      .map(element => this.application.getControllerForElementAndIdentifier(element, 'lazy-file'))
+      .filter(Boolean);
+  }
+
   navigateToNextMatch() {
     if (this.currentMatches.length === 0) return;
 
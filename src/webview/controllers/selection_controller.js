@@ -12,6 +12,8 @@ export default class SelectionController extends Controller {
   selectedLines = new Set();
   lastSelectedFile = null;
   lastSelectedLine = null;
+  // Lines are selected on one side at a time: 'new', or 'old' for removed lines
+  selectedSide = 'new';
 
   // Stimulus actions for handling requests
   handleSelectionRequest(event) {
@@ -22,6 +24,7 @@ export default class SelectionController extends Controller {
     dispatchCustomEvent(this.element, EVENTS.LINE_SELECTION.RESPONSE, {
       requestId,
       selectedLines,
+      side: this.selectedSide,
     });
   }
 
@@ -37,13 +40,21 @@ export default class SelectionController extends Controller {
     }
 
     const lineNumber = parseInt(targetElement.dataset.lineNumber);
+    const side = targetElement.dataset.lineSide || 'new';
     const filePath = this.filePathValue;
 
     if (!lineNumber || !filePath) {
       return;
     }
 
-    const actualLineId = `${filePath}:new:${lineNumber}`;
+    const actualLineId = `${filePath}:${side}:${lineNumber}`;
+
+    // Switching sides starts a new selection
+    if (side !== this.selectedSide) {
+      this.clearSelections(filePath);
+      this.lastSelectedLine = null;
+      this.selectedSide = side;
+    }
 
     // Handle selection logic
     if (event.shiftKey && this.lastSelectedFile === filePath && this.lastSelectedLine !== null) {
@@ -54,7 +65,7 @@ export default class SelectionController extends Controller {
       this.clearSelections(filePath);
 
       for (let i = startLine; i <= endLine; i++) {
-        const lineId = `${filePath}:new:${i}`;
+        const lineId = `${filePath}:${side}:${i}`;
         this.selectedLines.add(lineId);
       }
     } else if (event.ctrlKey || event.metaKey) {
@@ -81,6 +92,7 @@ export default class SelectionController extends Controller {
     dispatchCustomEvent(this.element, EVENTS.SELECTION.CHANGED, {
       filePath,
       selectedLines: this.getSelectedLinesForFile(filePath),
+      side: this.selectedSide,
       lineCount: this.selectedLines.size,
     });
   }
@@ -90,39 +102,42 @@ export default class SelectionController extends Controller {
     this.selectedLines.clear();
     this.lastSelectedFile = null;
     this.lastSelectedLine = null;
+    this.selectedSide = 'new';
     // Remove visual styling from all rows using targets
     this.selectableRowTargets.forEach(row => {
-      row.classList.remove(
-        'br-line-selected',
-        'br-line-selected-first',
-        'br-line-selected-last',
-        'br-line-selected-middle'
-      );
+      row.classList.remove(...this.selectionClasses('new'), ...this.selectionClasses('old'));
     });
   }
 
   getSelectedLinesForFile(filePath) {
     return Array.from(this.selectedLines)
       .filter(line => line.startsWith(filePath + ':'))
-      .filter(line => line.includes(':new:')) // Only new side lines
-      .map(line => parseInt(line.split(':')[2])) // Get line number from file:new:line format
+      .filter(line => line.includes(`:${this.selectedSide}:`)) // Only the selected side
+      .map(line => parseInt(line.split(':')[2])) // Get line number from file:side:line format
       .sort((a, b) => a - b);
   }
 
+  // Rows carry their new-side id in data-line-id and their removed line's id in data-old-line-id
+  findRow(lineId) {
+    return this.selectableRowTargets.find(
+      row =>
+        row.getAttribute('data-line-id') === lineId ||
+        row.getAttribute('data-old-line-id') === lineId
+    );
+  }
+
+  selectionClasses(side) {
+    const prefix = side === 'old' ? 'br-old-line-selected' : 'br-line-selected';
+    return [prefix, `${prefix}-first`, `${prefix}-last`, `${prefix}-middle`];
+  }
+
   clearSelections(filePath) {
     const selectedLines = this.selectedLines;
     selectedLines.forEach(id => {
       if (id.startsWith(filePath + ':')) {
-        const prevRow = this.selectableRowTargets.find(
-          row => row.getAttribute('data-line-id') === id
-        );
+        const prevRow = this.findRow(id);
         if (prevRow) {
-          prevRow.classList.remove(
-            'br-line-selected',
-            'br-line-selected-first',
-            'br-line-selected-last',
-            'br-line-selected-middle'
-          );
+          prevRow.classList.remove(...this.selectionClasses(id.split(':')[1]));
         }
         selectedLines.delete(id);
       }
@@ -130,30 +145,20 @@ export default class SelectionController extends Controller {
   }
 
   updateSelectionStyling(filePath) {
-    // Find all new side rows for this file using targets
-    const allRows = this.selectableRowTargets.filter(row => {
-      const lineId = row.getAttribute('data-line-id');
-      return lineId && lineId.startsWith(`${filePath}:new:`);
-    });
+    const side = this.selectedSide;
+    const [selectedClass, firstClass, lastClass, middleClass] = this.selectionClasses(side);
 
     // First clear all selection styling classes from all rows
-    allRows.forEach(row => {
-      row.classList.remove(
-        'br-line-selected',
-        'br-line-selected-first',
-        'br-line-selected-last',
-        'br-line-selected-middle'
-      );
+    this.selectableRowTargets.forEach(row => {
+      row.classList.remove(...this.selectionClasses('new'), ...this.selectionClasses('old'));
     });
 
-    // Get all selected new side lines for this file, sorted by line number
+    // Get all selected lines of the current side for this file, sorted by line number
     const selectedLines = Array.from(this.selectedLines)
-      .filter(id => id.startsWith(filePath + ':new:'))
+      .filter(id => id.startsWith(`${filePath}:${side}:`))
       .map(id => {
         const lineNum = parseInt(id.split(':')[2]);
-        const element = this.selectableRowTargets.find(
-          row => row.getAttribute('data-line-id') === id
-        );
+        const element = this.findRow(id);
         return { id, lineNum, element };
       })
       .filter(item => item.element) // Only keep items where we found the element
@@ -168,17 +173,17 @@ export default class SelectionController extends Controller {
       const isSingle = selectedLines.length === 1;
 
       // Always add the base selection class
-      item.element.classList.add('br-line-selected');
+      item.element.classList.add(selectedClass);
 
       // Add border classes for continuous selection
       if (isSingle) {
-        item.element.classList.add('br-line-selected-first', 'br-line-selected-last');
+        item.element.classList.add(firstClass, lastClass);
       } else if (isFirst) {
-        item.element.classList.add('br-line-selected-first');
+        item.element.classList.add(firstClass);
       } else if (isLast) {
-        item.element.classList.add('br-line-selected-last');
+        item.element.classList.add(lastClass);
       } else {
-        item.element.classList.add('br-line-selected-middle');
+        item.element.classList.add(middleClass);
       }
     });
   }
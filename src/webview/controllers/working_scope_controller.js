@@ -0,0 +1,42 @@
+// Working Scope Controller - Switch Working Changes between all, staged and unstaged changes
+import { Controller } from 'stimulus';
+
+export default class WorkingScopeController extends Controller {
+  static targets = ['button'];
+  static values = {
+    selected: String,
+  };
+
+  connect() {
+    this.updateButtonStates();
+  }
+
+  change(event) {
+    const scope = event.currentTarget.dataset.scope;
+    if (scope === this.selectedValue) return;
+
+    this.selectedValue = scope;
+    this.updateButtonStates();
+
+    // Show immediate loading feedback by finding the app controller
+    const appController = this.application.getControllerForElementAndIdentifier(
+      document.body,
+      'app'
+    );
+    if (appController) {
+      appController.showLoading();
+      appController.updateLoadingStatus(`Loading ${scope} changes...`);
+    }
+
+    window.vscode.postMessage({
+      command: 'changeWorkingScope',
+      data: { scope },
+    });
+  }
+
+  updateButtonStates() {
+    this.buttonTargets.forEach(button => {
+      button.classList.toggle('active', button.dataset.scope === this.selectedValue);
+    });
+  }
+}
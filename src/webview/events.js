@@ -25,6 +25,18 @@ export const EVENTS = {
   SELECTION: {
     CHANGED: 'selection:changed',
   },
+
+  // Lazily rendered file events
+  FILE_ROWS: {
+    LOADED: 'file-rows:loaded',
+    FAILED: 'file-rows:failed',
+  },
+
+  // Hidden context expansion events
+  CONTEXT: {
+    LOADED: 'context:loaded',
+    FAILED: 'context:failed',
+  },
 };
 
 /**